@@ -0,0 +1,30 @@
+import Link from "next/link"
+import type { EntrySummary } from "@/lib/content"
+import { entryHref } from "@/lib/wikiLinks"
+
+type BacklinksProps = {
+  entries: EntrySummary[]
+}
+
+export function Backlinks({ entries }: BacklinksProps) {
+  if (!entries.length) return null
+
+  return (
+    <section className="mt-16 border-t border-white/10 pt-8">
+      <p className="text-xs uppercase tracking-[0.25em] text-white/60">Referenced by</p>
+      <ul className="mt-4 grid gap-3 sm:grid-cols-2">
+        {entries.map((e) => (
+          <li key={`${e.category}/${e.slug}`}>
+            <Link
+              href={entryHref(e)}
+              className="block rounded-2xl border border-white/10 bg-white/5 px-4 py-3 hover:bg-white/10 transition"
+            >
+              <span className="block text-xs text-white/50 uppercase tracking-wider">{e.category}</span>
+              <span className="mt-1 block text-sm font-medium">{e.title}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
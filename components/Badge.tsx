@@ -1,7 +1,11 @@
 "use client"
 
+import Link from "next/link"
+import { normalizeTag, tagHref } from "@/lib/tags"
+
 type BadgeProps = {
   text: string
+  count?: number
 }
 
 const palettes = [
@@ -18,17 +22,19 @@ function toneFor(text: string) {
   return palettes[hash % palettes.length]
 }
 
-export default function Badge({ text }: BadgeProps) {
-  const tone = toneFor(text.toLowerCase())
+export default function Badge({ text, count }: BadgeProps) {
+  const tone = toneFor(normalizeTag(text))
 
   return (
-    <span
-      className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs lowercase tracking-wide ${tone}`}
+    <Link
+      href={tagHref(text)}
+      className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs lowercase tracking-wide hover:brightness-125 transition ${tone}`}
       aria-label={`Tag ${text}`}
     >
       <span className="text-white/60">#</span>
       <span>{text}</span>
-    </span>
+      {typeof count === "number" ? <span className="text-white/50">{count}</span> : null}
+    </Link>
   )
 }
 
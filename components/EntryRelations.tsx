@@ -0,0 +1,36 @@
+import Link from "next/link"
+import type { RelationGraph as Graph } from "@/lib/relations"
+import { RelationGraph } from "@/components/RelationGraph"
+
+type EntryRelationsProps = {
+  id: string // "category/slug" of the entry being shown
+  graph: Graph
+}
+
+// A small graph of the entry and its direct relations, centered on the entry.
+export function EntryRelations({ id, graph }: EntryRelationsProps) {
+  if (!graph.edges.length) return null
+
+  const titles = new Map(graph.nodes.map((n) => [n.id, n.title]))
+
+  return (
+    <section className="mt-16 border-t border-white/10 pt-8">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs uppercase tracking-[0.25em] text-white/60">Relations</p>
+        <Link href="/relations" className="text-xs text-white/50 hover:text-white/80 transition">
+          Full graph →
+        </Link>
+      </div>
+      <div className="mt-4">
+        <RelationGraph nodes={graph.nodes} edges={graph.edges} focusId={id} height={340} />
+      </div>
+      <ul className="sr-only">
+        {graph.edges.map((e) => (
+          <li key={`${e.source}|${e.target}|${e.type}`}>
+            {titles.get(e.source)} ({e.type}) {titles.get(e.target)}
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,40 @@
+import Link from "next/link"
+import type { InfoboxRow } from "@/lib/infobox"
+
+type InfoboxProps = {
+  title: string
+  type?: string
+  rows: InfoboxRow[]
+}
+
+export function Infobox({ title, type, rows }: InfoboxProps) {
+  if (!rows.length) return null
+
+  return (
+    <aside className="rounded-3xl border border-white/10 bg-white/5 p-5 text-sm md:sticky md:top-6">
+      <p className="text-xs uppercase tracking-[0.25em] text-white/60">{type ?? "Details"}</p>
+      <h2 className="mt-2 text-lg font-semibold">{title}</h2>
+      <dl className="mt-4 divide-y divide-white/10">
+        {rows.map((row) => (
+          <div key={row.key} className="grid grid-cols-[90px_1fr] gap-3 py-2.5">
+            <dt className="text-xs uppercase tracking-wider text-white/50">{row.label}</dt>
+            <dd className="text-white/85">
+              {row.items.map((item, i) => (
+                <span key={`${item.text}-${i}`}>
+                  {i > 0 ? ", " : null}
+                  {item.href ? (
+                    <Link href={item.href} className="text-sky-200 underline decoration-sky-200/40 underline-offset-2 hover:decoration-current">
+                      {item.text}
+                    </Link>
+                  ) : (
+                    item.text
+                  )}
+                </span>
+              ))}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </aside>
+  )
+}
@@ -1,19 +1,50 @@
 import Link from "next/link"
-import { getEntriesByCategory } from "@/lib/content"
+import { folderOf, formatFolderName, getEntriesByFolder } from "@/lib/content"
 
 type Props = {
   category: string
   slug: string
+  title?: string
 }
 
-export default function LoreNav({ category, slug }: Props) {
-  const entries = getEntriesByCategory(category)
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+export default function LoreNav({ category, slug, title }: Props) {
+  // prev/next stay inside the entry's own sub-folder
+  const folder = folderOf(slug)
+  const entries = getEntriesByFolder(category, folder)
   const idx = entries.findIndex((e) => e.slug === slug)
   const prev = idx > 0 ? entries[idx - 1] : null
   const next = idx >= 0 && idx < entries.length - 1 ? entries[idx + 1] : null
 
+  const folderParts = folder ? folder.split("/") : []
+  const crumbs = [
+    { label: "Home", href: "/" },
+    { label: capitalize(category), href: `/lore/${category}` },
+    ...folderParts.map((_, i) => {
+      const sub = folderParts.slice(0, i + 1).join("/")
+      return { label: formatFolderName(folderParts[i]), href: `/lore/${category}#${sub}` }
+    }),
+  ]
+
   return (
     <nav className="mx-auto max-w-5xl px-6 py-6">
+      <ol className="mb-4 flex flex-wrap items-center gap-2 text-xs text-white/50" aria-label="Breadcrumb">
+        {crumbs.map((crumb) => (
+          <li key={crumb.href} className="flex items-center gap-2">
+            <Link href={crumb.href} className="hover:text-white transition">
+              {crumb.label}
+            </Link>
+            <span aria-hidden>›</span>
+          </li>
+        ))}
+        <li className="text-white/80" aria-current="page">
+          {title ?? slug}
+        </li>
+      </ol>
+
       <div className="flex items-center gap-3">
         <Link
           href="/"
@@ -26,9 +57,18 @@ export default function LoreNav({ category, slug }: Props) {
           href={`/lore/${category}`}
           className="rounded-2xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:text-white hover:bg-white/10 transition"
         >
-          All {category.charAt(0).toUpperCase() + category.slice(1)}
+          All {capitalize(category)}
         </Link>
 
+        {folder ? (
+          <Link
+            href={`/lore/${category}#${folder}`}
+            className="rounded-2xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:text-white hover:bg-white/10 transition"
+          >
+            {formatFolderName(folder)}
+          </Link>
+        ) : null}
+
         <div className="ml-auto flex items-center gap-2">
           {prev ? (
             <Link
@@ -0,0 +1,14 @@
+import { marked } from "marked"
+import { sanitizeHtml } from "@/lib/sanitize"
+
+type MarkdownRenderProps = {
+  source: string
+  className?: string
+}
+
+// Plain markdown (pin descriptions and other admin-edited text) rendered to
+// HTML. The output is always sanitized before it reaches the DOM.
+export function MarkdownRender({ source, className = "prose prose-invert max-w-none" }: MarkdownRenderProps) {
+  const html = sanitizeHtml(marked.parse(source, { async: false }))
+  return <div className={className} dangerouslySetInnerHTML={{ __html: html }} />
+}
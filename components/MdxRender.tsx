@@ -1,17 +1,93 @@
-import { MDXRemote } from "next-mdx-remote/rsc"
-import { marked } from "marked"
-
-export function MdxRender({ source }: { source: any }) {
-  // If `source` is a raw markdown/MDX string, render it to HTML as a reliable
-  // fallback. If it's already a serialized MDX object, let `MDXRemote` handle it.
-  if (typeof source === "string") {
-    const html = marked.parse(source)
-    return <article className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: html }} />
-  }
+import { compileMDX } from "next-mdx-remote/rsc"
+import { renderWikiLinks } from "@/lib/wikiLinks"
+import { rehypeSanitizeMdx } from "@/lib/sanitize"
+import { mdxComponents, MDX_COMPONENT_NAMES } from "@/components/mdx"
+
+type UnknownComponent = {
+  name: string
+  line: number
+}
+
+// Capitalized JSX tags that are not in the component library. Code blocks and
+// inline code are skipped so examples like `<Foo>` don't count.
+function findUnknownComponents(source: string): UnknownComponent[] {
+  const found: UnknownComponent[] = []
+  const seen = new Set<string>()
+  let inFence = false
+
+  source.split("\n").forEach((line, i) => {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence) return
+
+    for (const match of line.replace(/`[^`]*`/g, "").matchAll(/<\/?([A-Z][\w.]*)/g)) {
+      const name = match[1]
+      if (MDX_COMPONENT_NAMES.includes(name) || seen.has(name)) continue
+      seen.add(name)
+      found.push({ name, line: i + 1 })
+    }
+  })
+
+  return found
+}
 
+function MdxError({ title, children }: { title: string; children: React.ReactNode }) {
   return (
-    <article className="prose prose-invert max-w-none">
-      <MDXRemote source={source} />
-    </article>
+    <div className="rounded-2xl border border-rose-400/30 bg-rose-500/10 p-5 text-sm text-rose-100">
+      <p className="font-semibold">{title}</p>
+      <div className="mt-2 space-y-2 text-rose-100/80">{children}</div>
+      <p className="mt-4 text-xs text-rose-100/60">
+        Available components: {MDX_COMPONENT_NAMES.map((n) => `<${n}>`).join(", ")}
+      </p>
+    </div>
   )
 }
+
+export async function MdxRender({ source }: { source: string }) {
+  // Entry bodies are compiled as real MDX so writers can use the component
+  // library in components/mdx. [[wiki links]] are resolved to lore pages first.
+  const unknown = findUnknownComponents(source)
+  if (unknown.length) {
+    return (
+      <MdxError title="This entry uses components that don't exist.">
+        <ul className="list-disc pl-5">
+          {unknown.map((u) => (
+            <li key={u.name}>
+              <code>&lt;{u.name}&gt;</code> on line {u.line} of the entry body
+            </li>
+          ))}
+        </ul>
+      </MdxError>
+    )
+  }
+
+  let compiled: React.ReactElement | null = null
+  let compileError: string | null = null
+  try {
+    const result = await compileMDX({
+      source: renderWikiLinks(source),
+      components: mdxComponents,
+      options: {
+        mdxOptions: {
+          rehypePlugins: [[rehypeSanitizeMdx, { components: MDX_COMPONENT_NAMES }]],
+        },
+      },
+    })
+    compiled = result.content
+  } catch (err) {
+    console.error("Failed to compile MDX entry", err)
+    compileError = err instanceof Error ? err.message : String(err)
+  }
+
+  if (compileError !== null) {
+    return (
+      <MdxError title="This entry could not be compiled as MDX.">
+        <pre className="whitespace-pre-wrap text-xs">{compileError}</pre>
+      </MdxError>
+    )
+  }
+
+  return <article className="prose prose-invert max-w-none">{compiled}</article>
+}
@@ -32,6 +32,30 @@ export default function Navbar() {
           >
             Maps
           </Link>
+          <Link
+            href="/timeline"
+            className="rounded-md px-3 py-2 text-gray-300 hover:text-white"
+          >
+            Timeline
+          </Link>
+          <Link
+            href="/relations"
+            className="rounded-md px-3 py-2 text-gray-300 hover:text-white"
+          >
+            Relations
+          </Link>
+          <Link
+            href="/tags"
+            className="rounded-md px-3 py-2 text-gray-300 hover:text-white"
+          >
+            Tags
+          </Link>
+          <Link
+            href="/search"
+            className="rounded-md px-3 py-2 text-gray-300 hover:text-white"
+          >
+            Search
+          </Link>
         </div>
       </div>
     </nav>
@@ -0,0 +1,302 @@
+"use client"
+
+import { useEffect, useRef, useState, type PointerEvent } from "react"
+import { useRouter } from "next/navigation"
+import type { GraphEdge, GraphNode } from "@/lib/relations"
+
+type RelationGraphProps = {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  focusId?: string // kept at the center, e.g. the entry being read
+  height?: number
+}
+
+type Body = { x: number; y: number; vx: number; vy: number }
+type Layout = Record<string, { x: number; y: number }>
+
+const WIDTH = 800
+const CLICK_THRESHOLD_PX = 4
+
+// Simulation tuning, in viewBox units.
+const REPULSION = 6000
+const SPRING = 0.03
+const CENTERING = 0.01
+const DAMPING = 0.82
+const ALPHA_DECAY = 0.985
+const ALPHA_MIN = 0.02
+
+const KIND_COLORS: Record<GraphNode["kind"], string> = {
+  character: "#fbbf24",
+  faction: "#a78bfa",
+  location: "#34d399",
+  lore: "#94a3b8",
+  other: "#94a3b8",
+}
+
+const RELATION_COLORS: Record<string, string> = {
+  mentor: "#38bdf8",
+  student: "#38bdf8",
+  rival: "#f87171",
+  enemy: "#ef4444",
+  ally: "#4ade80",
+  friend: "#4ade80",
+  family: "#f472b6",
+  "member-of": "#a78bfa",
+  "leader-of": "#c084fc",
+  "located-in": "#34d399",
+}
+
+function edgeColor(type: string) {
+  return RELATION_COLORS[type] ?? "#ffffff66"
+}
+
+// Deterministic starting positions (a circle) so server and client render the same markup.
+function initialBodies(nodes: GraphNode[], height: number, focusId?: string) {
+  const bodies = new Map<string, Body>()
+  const radius = Math.min(WIDTH, height) * 0.35
+  const others = nodes.filter((n) => n.id !== focusId)
+  others.forEach((node, i) => {
+    const angle = (i / Math.max(1, others.length)) * Math.PI * 2
+    bodies.set(node.id, { x: WIDTH / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius, vx: 0, vy: 0 })
+  })
+  if (focusId && nodes.some((n) => n.id === focusId)) {
+    bodies.set(focusId, { x: WIDTH / 2, y: height / 2, vx: 0, vy: 0 })
+  }
+  return bodies
+}
+
+function snapshot(bodies: Map<string, Body>): Layout {
+  const layout: Layout = {}
+  for (const [id, b] of bodies) layout[id] = { x: b.x, y: b.y }
+  return layout
+}
+
+/**
+ * One step of a plain force simulation: every pair of nodes repels, edges act
+ * as springs and everything drifts towards the center. `fixed` nodes don't move.
+ */
+function step(bodies: Map<string, Body>, edges: GraphEdge[], height: number, alpha: number, fixed: Set<string>, linkLength: number) {
+  const list = Array.from(bodies.entries())
+
+  for (let i = 0; i < list.length; i++) {
+    const [, a] = list[i]
+    for (let j = i + 1; j < list.length; j++) {
+      const [, b] = list[j]
+      const dx = a.x - b.x || 0.01
+      const dy = a.y - b.y || 0.01
+      const distSq = Math.max(dx * dx + dy * dy, 100)
+      const force = (REPULSION / distSq) * alpha
+      const dist = Math.sqrt(distSq)
+      a.vx += (dx / dist) * force
+      a.vy += (dy / dist) * force
+      b.vx -= (dx / dist) * force
+      b.vy -= (dy / dist) * force
+    }
+  }
+
+  for (const edge of edges) {
+    const a = bodies.get(edge.source)
+    const b = bodies.get(edge.target)
+    if (!a || !b) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1
+    const force = (dist - linkLength) * SPRING * alpha
+    a.vx += (dx / dist) * force
+    a.vy += (dy / dist) * force
+    b.vx -= (dx / dist) * force
+    b.vy -= (dy / dist) * force
+  }
+
+  for (const [id, body] of list) {
+    if (fixed.has(id)) {
+      body.vx = 0
+      body.vy = 0
+      continue
+    }
+    body.vx = (body.vx + (WIDTH / 2 - body.x) * CENTERING * alpha) * DAMPING
+    body.vy = (body.vy + (height / 2 - body.y) * CENTERING * alpha) * DAMPING
+    body.x = Math.min(WIDTH - 20, Math.max(20, body.x + body.vx))
+    body.y = Math.min(height - 20, Math.max(20, body.y + body.vy))
+  }
+}
+
+export function RelationGraph({ nodes, edges, focusId, height = 520 }: RelationGraphProps) {
+  const router = useRouter()
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const bodiesRef = useRef<Map<string, Body> | null>(null)
+  const alphaRef = useRef(1)
+  const frameRef = useRef<number | null>(null)
+  const dragRef = useRef<{ id: string; startX: number; startY: number; moved: boolean } | null>(null)
+
+  const [layout, setLayout] = useState<Layout>(() => snapshot(initialBodies(nodes, height, focusId)))
+  const [hovered, setHovered] = useState<string | null>(null)
+
+  const linkLength = focusId ? 150 : 120
+
+  const run = () => {
+    if (frameRef.current !== null) return
+    const tick = () => {
+      const bodies = bodiesRef.current
+      if (!bodies) return
+      const fixed = new Set<string>()
+      if (focusId) fixed.add(focusId)
+      if (dragRef.current) fixed.add(dragRef.current.id)
+
+      step(bodies, edges, height, alphaRef.current, fixed, linkLength)
+      alphaRef.current *= ALPHA_DECAY
+      setLayout(snapshot(bodies))
+
+      if (alphaRef.current > ALPHA_MIN || dragRef.current) {
+        frameRef.current = requestAnimationFrame(tick)
+      } else {
+        frameRef.current = null
+      }
+    }
+    frameRef.current = requestAnimationFrame(tick)
+  }
+
+  useEffect(() => {
+    bodiesRef.current = initialBodies(nodes, height, focusId)
+    alphaRef.current = 1
+    run()
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    // restart only when the graph itself changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodes, edges, focusId, height])
+
+  const toSvgPoint = (event: PointerEvent) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return null
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return { x: point.x, y: point.y }
+  }
+
+  const onNodePointerDown = (event: PointerEvent<SVGGElement>, id: string) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { id, startX: event.clientX, startY: event.clientY, moved: false }
+  }
+
+  const onNodePointerMove = (event: PointerEvent<SVGGElement>) => {
+    const drag = dragRef.current
+    const body = drag ? bodiesRef.current?.get(drag.id) : undefined
+    if (!drag || !body) return
+    if (Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > CLICK_THRESHOLD_PX) drag.moved = true
+    if (!drag.moved || drag.id === focusId) return
+
+    const point = toSvgPoint(event)
+    if (!point) return
+    body.x = point.x
+    body.y = point.y
+    // reheat so neighbours follow the dragged node
+    alphaRef.current = Math.max(alphaRef.current, 0.3)
+    run()
+  }
+
+  const onNodePointerUp = (event: PointerEvent<SVGGElement>, node: GraphNode) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    if (drag && !drag.moved) router.push(node.href)
+  }
+
+  const isActive = (id: string) =>
+    !hovered || hovered === id || edges.some((e) => (e.source === hovered && e.target === id) || (e.target === hovered && e.source === id))
+
+  const relationTypes = Array.from(new Set(edges.map((e) => e.type))).sort()
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full touch-none select-none rounded-3xl border border-white/10 bg-black/20"
+        role="img"
+        aria-label="Relationship graph"
+      >
+        <defs>
+          <marker id="relation-arrow" viewBox="0 0 10 10" refX="20" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#ffffff80" />
+          </marker>
+        </defs>
+
+        {edges.map((edge) => {
+          const a = layout[edge.source]
+          const b = layout[edge.target]
+          if (!a || !b) return null
+          const active = !hovered || edge.source === hovered || edge.target === hovered
+          return (
+            <g key={`${edge.source}|${edge.target}|${edge.type}`} opacity={active ? 1 : 0.15}>
+              <line
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={edgeColor(edge.type)}
+                strokeWidth={1.5}
+                markerEnd="url(#relation-arrow)"
+              />
+              {active && hovered ? (
+                <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2 - 4} textAnchor="middle" className="fill-white/70 text-[11px]">
+                  {edge.type}
+                </text>
+              ) : null}
+              <title>{edge.type}</title>
+            </g>
+          )
+        })}
+
+        {nodes.map((node) => {
+          const pos = layout[node.id]
+          if (!pos) return null
+          const focused = node.id === focusId
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${pos.x} ${pos.y})`}
+              opacity={isActive(node.id) ? 1 : 0.25}
+              className="cursor-pointer"
+              role="link"
+              tabIndex={0}
+              aria-label={node.title}
+              onPointerDown={(e) => onNodePointerDown(e, node.id)}
+              onPointerMove={onNodePointerMove}
+              onPointerUp={(e) => onNodePointerUp(e, node)}
+              onPointerEnter={() => setHovered(node.id)}
+              onPointerLeave={() => setHovered(null)}
+              onFocus={() => setHovered(node.id)}
+              onBlur={() => setHovered(null)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") router.push(node.href)
+              }}
+            >
+              <circle r={focused ? 11 : 8} fill={KIND_COLORS[node.kind]} stroke="#000" strokeOpacity={0.4} strokeWidth={2} />
+              <text y={focused ? 26 : 22} textAnchor="middle" className="fill-white/85 text-[12px]">
+                {node.title}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="mt-4 flex flex-wrap gap-x-5 gap-y-2 text-xs text-white/60">
+        {(["character", "faction", "location"] as const).map((kind) => (
+          <span key={kind} className="inline-flex items-center gap-2">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ background: KIND_COLORS[kind] }} />
+            {kind}
+          </span>
+        ))}
+        {relationTypes.map((type) => (
+          <span key={type} className="inline-flex items-center gap-2">
+            <span className="h-0.5 w-4" style={{ background: edgeColor(type) }} />
+            {type}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
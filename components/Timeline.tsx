@@ -0,0 +1,275 @@
+"use client"
+
+import Link from "next/link"
+import { useLayoutEffect, useMemo, useRef, useState } from "react"
+import { eraForAbsoluteYear } from "@/lib/calendar"
+import type { TimelineEra, TimelineEvent } from "@/lib/timeline"
+
+type TimelineProps = {
+  events: TimelineEvent[]
+  eras: TimelineEra[]
+}
+
+// pixels per in-world year
+const MIN_ZOOM = 0.05
+const MAX_ZOOM = 40
+const ZOOM_STEP = 1.6
+
+const PADDING_PX = 24
+const LABEL_WIDTH_PX = 190
+const LANE_HEIGHT_PX = 58
+const MIN_TICK_SPACING_PX = 90
+const TICK_STEPS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000]
+
+const ALL = ""
+
+function clampZoom(value: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value))
+}
+
+function yearLabel(absolute: number) {
+  const era = eraForAbsoluteYear(absolute)
+  if (!era) return String(Math.floor(absolute))
+  return `${Math.floor(absolute) - era.offset + 1} ${era.abbr}`
+}
+
+function uniqueSorted(values: Array<string | undefined>) {
+  return Array.from(new Set(values.filter((v): v is string => Boolean(v)))).sort((a, b) => a.localeCompare(b))
+}
+
+// Greedy lane packing so labels never overlap at the current zoom.
+function assignLanes(events: TimelineEvent[], xOf: (year: number) => number) {
+  const laneEnds: number[] = []
+  const lanes = new Map<string, number>()
+
+  for (const event of events) {
+    const left = xOf(event.start)
+    const right = Math.max(left + LABEL_WIDTH_PX, xOf(event.end ?? event.start))
+    let lane = laneEnds.findIndex((end) => end + 8 <= left)
+    if (lane === -1) {
+      lane = laneEnds.length
+      laneEnds.push(right)
+    } else {
+      laneEnds[lane] = right
+    }
+    lanes.set(event.id, lane)
+  }
+
+  return { lanes, count: Math.max(1, laneEnds.length) }
+}
+
+export function Timeline({ events, eras }: TimelineProps) {
+  const scrollRef = useRef<HTMLDivElement | null>(null)
+  // year to keep at a given viewport offset after a zoom change
+  const pendingAnchor = useRef<{ year: number; offsetPx: number } | null>(null)
+
+  const [region, setRegion] = useState(ALL)
+  const [faction, setFaction] = useState(ALL)
+  const [zoom, setZoom] = useState(0.5)
+
+  const regions = useMemo(() => uniqueSorted(events.map((e) => e.region)), [events])
+  const factions = useMemo(() => uniqueSorted(events.map((e) => e.faction?.title)), [events])
+
+  const visible = useMemo(
+    () =>
+      events.filter(
+        (e) => (region === ALL || e.region === region) && (faction === ALL || e.faction?.title === faction),
+      ),
+    [events, region, faction],
+  )
+
+  const first = eras[0]?.start ?? 0
+  const last = eras[eras.length - 1]?.end ?? 100
+  const xOf = (year: number) => PADDING_PX + (year - first) * zoom
+  const width = (last - first) * zoom + PADDING_PX * 2 + LABEL_WIDTH_PX
+
+  const { lanes, count } = assignLanes(visible, xOf)
+  const tickStep = TICK_STEPS.find((step) => step * zoom >= MIN_TICK_SPACING_PX) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const ticks: number[] = []
+  for (let year = Math.ceil(first / tickStep) * tickStep; year <= last; year += tickStep) ticks.push(year)
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current
+    const anchor = pendingAnchor.current
+    if (!el || !anchor) return
+    el.scrollLeft = xOf(anchor.year) - anchor.offsetPx
+    pendingAnchor.current = null
+  })
+
+  // zoom around the year currently in the middle of the viewport
+  const zoomTo = (next: number) => {
+    const el = scrollRef.current
+    const offsetPx = (el?.clientWidth ?? 0) / 2
+    const year = first + ((el?.scrollLeft ?? 0) + offsetPx - PADDING_PX) / zoom
+    pendingAnchor.current = { year, offsetPx }
+    setZoom(clampZoom(next))
+  }
+
+  // zoom so [start, end] fills the viewport, leaving room for the last label
+  const fitRange = (start: number, end: number) => {
+    const available = (scrollRef.current?.clientWidth ?? 800) - PADDING_PX * 2 - LABEL_WIDTH_PX
+    pendingAnchor.current = { year: start, offsetPx: PADDING_PX }
+    setZoom(clampZoom(available / Math.max(1, end - start)))
+  }
+
+  const fitEvents = () => {
+    if (!visible.length) return fitRange(first, last)
+    const start = visible[0].start
+    const end = visible.reduce((max, e) => Math.max(max, e.end ?? e.start), start)
+    fitRange(start - 5, end + 5)
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          Region
+          <select
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            className="rounded-full border border-white/15 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/25"
+          >
+            <option value={ALL}>All regions</option>
+            {regions.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          Faction
+          <select
+            value={faction}
+            onChange={(e) => setFaction(e.target.value)}
+            className="rounded-full border border-white/15 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/25"
+          >
+            <option value={ALL}>All factions</option>
+            {factions.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            aria-label="Zoom out"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-sm hover:bg-white/10 transition disabled:opacity-50"
+            onClick={() => zoomTo(zoom / ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+          >
+            −
+          </button>
+          <button
+            type="button"
+            aria-label="Zoom in"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-sm hover:bg-white/10 transition disabled:opacity-50"
+            onClick={() => zoomTo(zoom * ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+          >
+            +
+          </button>
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-sm hover:bg-white/10 transition"
+            onClick={fitEvents}
+          >
+            Fit events
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="mt-6 overflow-x-auto rounded-3xl border border-white/10 bg-black/20"
+      >
+        <div className="relative" style={{ width, height: 56 + count * LANE_HEIGHT_PX + 24 }}>
+          {/* era bands; clicking one zooms to fit it */}
+          {eras.map((era) => (
+            <button
+              key={era.id}
+              type="button"
+              title={`Zoom to ${era.name}`}
+              onClick={() => fitRange(era.start, era.end)}
+              className="absolute inset-y-0 flex items-start border-x border-white/10 text-left transition hover:brightness-125"
+              style={{
+                left: xOf(era.start),
+                width: (era.end - era.start) * zoom,
+                background: `${era.color}14`,
+              }}
+            >
+              <span
+                className="block truncate px-3 pt-2 text-xs font-medium uppercase tracking-[0.2em]"
+                style={{ color: era.color }}
+              >
+                {era.name}
+              </span>
+            </button>
+          ))}
+
+          {/* year axis */}
+          <div className="pointer-events-none absolute inset-x-0 top-8 h-6 border-b border-white/10">
+            {ticks.map((year) => (
+              <span
+                key={year}
+                className="absolute top-0 -translate-x-1/2 whitespace-nowrap text-[11px] text-white/45"
+                style={{ left: xOf(year) }}
+              >
+                {yearLabel(year)}
+              </span>
+            ))}
+          </div>
+
+          {visible.map((event) => {
+            const left = xOf(event.start)
+            const top = 56 + (lanes.get(event.id) ?? 0) * LANE_HEIGHT_PX
+            const span = event.end !== undefined ? Math.max(4, (event.end - event.start) * zoom) : 0
+
+            return (
+              <div key={event.id} className="absolute" style={{ left, top }}>
+                {span ? (
+                  <div className="absolute -top-2 h-1 rounded-full bg-sky-300/60" style={{ width: span }} />
+                ) : null}
+                <div className="absolute -left-1 -top-2.5 h-2 w-2 rounded-full bg-sky-300" />
+                <Link
+                  href={event.entry.href}
+                  className="block rounded-xl border border-white/10 bg-black/60 px-3 py-1.5 text-xs shadow-sm hover:bg-white/10 transition"
+                  style={{ width: LABEL_WIDTH_PX }}
+                >
+                  <span className="block truncate font-medium text-white/90">{event.label}</span>
+                  <span className="block truncate text-white/50">{event.date}</span>
+                </Link>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <ol className="mt-10 space-y-3">
+        {visible.map((event) => (
+          <li key={event.id}>
+            <Link
+              href={event.entry.href}
+              className="block rounded-2xl border border-white/10 bg-white/5 p-4 hover:bg-white/10 transition"
+            >
+              <p className="text-xs uppercase tracking-wider text-white/50">
+                {event.date}
+                {event.endDate ? ` – ${event.endDate}` : ""}
+                {event.region ? ` • ${event.region}` : ""}
+                {event.faction ? ` • ${event.faction.title}` : ""}
+              </p>
+              <h2 className="mt-1 font-medium">{event.label}</h2>
+              <p className="mt-1 text-sm text-white/60">{event.entry.title}</p>
+            </Link>
+          </li>
+        ))}
+      </ol>
+
+      {!visible.length ? <p className="mt-8 text-sm text-white/50">No events match these filters</p> : null}
+    </div>
+  )
+}
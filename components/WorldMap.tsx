@@ -7,13 +7,35 @@
  * - mapSrc: string - Source URL of the map image.
  * - mapWidth?: number - Optional width of the map image.
  * - mapHeight?: number - Optional height of the map image.
- * - initialPins: WorldMapPin[] - Initial array of pins to display on the map.
+ * - initialPins: WorldMapPin[] - Every stored pin; only those on the active map are shown.
+ * - initialPinsRevision?: number - Store revision of initialPins, for the pin API's optimistic concurrency.
+ * - initialRegions: WorldMapRegion[] - Every stored region polygon; same per-map rule as pins.
+ * - initialRoutes: WorldMapRoute[] - Every saved route (roads, sea lanes); same per-map rule as pins.
  * - entrySummaries: EntrySummary[] - Array of entry summaries for linking pins to content.
+ * - tileManifests: Record<string, TileManifest> - Deep-zoom tile pyramids by map id; maps with one
+ *   render only the visible tiles instead of a single image and can zoom further (see lib/tilePyramid.ts).
  * State:
  * - pins: WorldMapPin[] - Current array of pins on the map.
  * - selectedId: string | null - ID of the currently selected pin.
+ * - regions: WorldMapRegion[] - Current array of region polygons.
+ * - selectedRegionId: string | null - ID of the selected region (a pin and a region are never both selected).
+ * - drawMode: boolean - Whether the admin is drawing a new region.
+ * - draftPoints: RegionPoint[] - Vertices of the region being drawn.
+ * - routes: WorldMapRoute[] - Current array of saved routes.
+ * - selectedRouteId: string | null - ID of the selected route (exclusive with pin/region selection).
+ * - measureMode: boolean - Whether the ruler is active; clicks add points to rulerPoints.
+ * - rulerPoints: RegionPoint[] - Points of the current measurement.
+ * - listOpen: boolean - Whether the PinListView (every pin on the map as a list) is shown.
+ * - zoomAnnouncement: string - Zoom level for the screen-reader live region, updated once zooming settles.
+ * - compareMapId: string | null - Second map drawn over the active one with the same camera, if any.
+ * - compareMode: CompareMode - "opacity" blends the compare map in; "swipe" shows it right of a divider.
+ * - compareOpacity/swipePosition: number - Opacity of the compare map, and the divider position (0..1).
  * - isAdmin: boolean - Whether the user has admin privileges.
  * - isEditing: boolean - Whether the map is in editing mode.
+ * - pinHistory: PinHistory - Undo/redo stacks of pin creates, moves, field edits and deletes (lib/pinHistory.ts).
+ * - savedPins: WorldMapPin[] - Pins as last saved; the "N unsaved changes" count compares pins against it.
+ * - mergePrompt - Conflicting pins from a 409, with both ways of merging them, while the editor decides.
+ * - pinImport - The import dialog's file, merge/replace mode and dry-run diff, while it is open.
  * - createMode: boolean - Whether the user is in create pin mode.
  * - draggingId: string | null - ID of the pin currently being dragged.
  * - isPanning: boolean - Whether the map is currently being panned.
@@ -24,31 +46,63 @@
  * - message: string | null - User feedback message.
  * - error: string | null - Error message.
  * - activeMapIndex: number - Index of the currently active map variant.
+ * - hiddenKinds: string[] - Pin kinds switched off in the legend (persisted in localStorage).
  * - imgSize: { w: number; h: number } - Size of the map image.
  * - camera: { scale: number; tx: number; ty: number } - Camera state for zoom and pan.
  * Handlers:
  * - handleImageLoad: Updates image size on load.
  * - handleLogin: Handles admin login.
  * - handleLogout: Handles admin logout.
+ * - copyViewLink: Copies the current URL, which mirrors map/camera/selection (see lib/mapView.ts).
  * - setPin: Updates a pin's data.
- * - createPinAt: Creates a new pin at specified normalized coordinates.
- * - savePins: Saves the current pins to the server.
+ * - createPinAt: Creates a new pin at specified normalized coordinates, on the active map.
+ * - savePins: Queues a save of every pin change through the per-pin API (lib/pinSync.ts), under the
+ *   store revision; on a 409 the other editor's pins are merged in (mergeWithStoredPins/resolveMerge).
+ * - editPin: setPin for the editor panel, recorded in the undo history (as are create, drag, nudge and delete).
+ * - previewPinImport/applyPinImport: Dry-runs a GeoJSON/CSV file against the store (added, changed,
+ *   removed), then imports it under the previewed revision and adopts the result (lib/pinExchange.ts).
+ * - stepPinHistory: Undo/redo (toolbar, Ctrl+Z / Ctrl+Shift+Z); unsaved edits also guard leaving the page.
+ * - saveRegions: Same as savePins, for region polygons.
+ * - finishDraft/cancelDraft: Turns the drawn points into a region, or drops them.
+ * - onVertexPointerDown/Move/Up, onMidpointPointerDown, onVertexDoubleClick: Region vertex editing.
+ * - onRegionClick: Selects a region; a second click opens its linked page.
+ * - toggleMeasureMode/addRulerPoint: The distance ruler; pins snap ruler points to themselves.
+ * - saveRoutes/saveRulerAsRoute: Persists saved routes, or turns the ruler line into one.
+ * - onRouteClick: Selects a route and shows its length and travel times.
  * - requestDeleteSelected: Opens delete confirmation for selected pin.
- * - confirmDeleteSelected: Deletes the selected pin after confirmation.
+ * - confirmDeleteSelected: Deletes the selected pin after confirmation (from this map only, if it is on others).
  * - updateFromPointer: Updates pin position based on pointer event.
  * - onPinPointerDown/Move/Up: Handlers for dragging pins.
  * - onPinClick: Handler for clicking a pin.
  * - resetView: Resets camera view to default.
  * - zoomAt: Zooms the camera at specified client coordinates.
+ * - flyToPin: Animates the camera onto a pin chosen in PinSearch, then selects it.
+ * - zoomToCluster: Zooms the camera to fit a pin cluster's bounds.
+ * - centerOn: Pans the camera (through clampCamera) so a normalized point is centered; used by the Minimap.
  * - onWheel: Handler for mouse wheel zooming.
- * - onViewportPointerDown/Move/Up: Handlers for panning the map.
+ * - onViewportPointerDown/Move/Up: Panning with one pointer (gliding on after a flick), pinch-zoom and
+ *   two-finger pan with two; a touch double-tap zooms in (onViewportTap).
  * - onViewportClick: Handler for creating pins on map click.
+ * - toggleKind: Shows/hides a pin kind and remembers the choice.
+ * - onNavigationKey: Arrow keys pan (or nudge the focused selected pin in edit mode), +/- zoom.
+ * - onPinActivate: Enter on a focused pin selects it and opens its linked entry.
+ * - closePanels: Escape closes the pin list, or clears the selection and its panel.
  * Renders:
  * - Header with title and controls.
  * - MapViewport component for displaying the map.
- * - PinsOverlay component for rendering pins.
+ * - PinLegend with per-kind visibility toggles.
+ * - RegionsOverlay for region polygons, beneath the pins.
+ * - RoutesOverlay for saved routes and the ruler line.
+ * - PinsOverlay component for rendering pins (in reading order, so Tab walks them top to bottom).
+ * - PinListView, and visually hidden live regions announcing the selected pin and the zoom.
+ * - ScaleBar and TravelPanel (distance, travel time per mode, editable speeds).
+ * - CompareControls, and a SwipeDivider over the map in swipe mode.
+ * - Minimap: collapsible overview with pin dots and the viewport rectangle (moves aside for the editor panels).
  * - PinEditorPanel for editing pin details.
+ * - RegionEditorPanel for region style, link and maps.
  * - DeletePinModal for confirming pin deletion.
+ * - PinMergeModal when a save conflicts with another editor's changes to the same pins.
+ * - PinImportModal for choosing an import file and mode, and reviewing its changes before importing.
  * - NavigateModal for confirming navigation to linked content.
  * Summary:
  * This component provides a full-featured interactive world map with pin management capabilities,
@@ -58,16 +112,56 @@
  * Camera clamping should always use imgSize.
  */
 
-import { useEffect, useMemo, useRef, useState, type PointerEvent, type WheelEvent } from "react"
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useEffectEvent,
+  useState,
+  useSyncExternalStore,
+  type KeyboardEvent,
+  type PointerEvent,
+  type WheelEvent,
+} from "react"
 import { useRouter } from "next/navigation"
 import type { EntrySummary } from "@/lib/content"
-import type { WorldMapPin } from "@/lib/worldMapPins"
+import type { RegionPoint, WorldMapPin, WorldMapRegion, WorldMapRoute } from "@/lib/worldMapPins"
 import type { MapInfo } from "@/lib/maps"
-import { MapViewport } from "@/components/map-viewer/MapViewport"
+import { MapViewport, type MapCompareLayer } from "@/components/map-viewer/MapViewport"
 import { PinsOverlay } from "@/components/map-viewer/PinsOverlay"
+import { RegionsOverlay } from "@/components/map-viewer/RegionsOverlay"
+import { RegionEditorPanel } from "@/components/map-viewer/RegionEditorPanel"
+import { RoutesOverlay } from "@/components/map-viewer/RoutesOverlay"
+import { ScaleBar } from "@/components/map-viewer/ScaleBar"
+import { TravelPanel } from "@/components/map-viewer/TravelPanel"
+import { CompareControls, type CompareMode } from "@/components/map-viewer/CompareControls"
+import { SwipeDivider } from "@/components/map-viewer/SwipeDivider"
+import { Minimap } from "@/components/map-viewer/Minimap"
 import { PinEditorPanel } from "@/components/map-viewer/PinEditorPanel"
 import { DeletePinModal } from "@/components/map-viewer/DeletePinModal"
+import { PinMergeModal } from "@/components/map-viewer/PinMergeModal"
+import { PinImportModal, type PinImportPreview } from "@/components/map-viewer/PinImportModal"
 import { NavigateModal } from "@/components/map-viewer/NavigateModal"
+import { PinLegend } from "@/components/map-viewer/PinLegend"
+import { PinSearch } from "@/components/map-viewer/PinSearch"
+import { PinListView } from "@/components/map-viewer/PinListView"
+import { getPinKind } from "@/lib/pinKinds"
+import { viewerMapScale } from "@/lib/travel"
+import type { PinCluster } from "@/lib/pinClusters"
+import { hasMapView, mapViewToSearch, type MapView } from "@/lib/mapView"
+import { previewUrl, type TileManifest } from "@/lib/tilePyramid"
+import { applyPinSaveOp, diffPins, mergePins, pinSaveRequest, pinsETag, removePinFromMap, samePin } from "@/lib/pinSync"
+import type { PinFileFormat, PinImportMode } from "@/lib/pinExchange"
+import {
+  EMPTY_PIN_HISTORY,
+  countUnsavedPins,
+  describePinCommand,
+  recordPinCommand,
+  redoPinCommand,
+  undoPinCommand,
+  type PinCommandKind,
+  type PinHistory,
+} from "@/lib/pinHistory"
 
 type WorldMapProps = {
   maps: readonly [MapInfo, ...MapInfo[]]
@@ -75,15 +169,66 @@ type WorldMapProps = {
   mapWidth?: number
   mapHeight?: number
   initialPins: WorldMapPin[]
+  initialPinsRevision?: number // store revision initialPins were read at; saves send it as If-Match
+  initialRegions: WorldMapRegion[]
+  initialRoutes: WorldMapRoute[]
   entrySummaries: EntrySummary[]
+  tileManifests?: Record<string, TileManifest>
+  initialView?: MapView // from the URL, see lib/mapView.ts
 }
 
 type SaveState = "idle" | "saving" | "saved" | "error"
 
+// the import dialog: the chosen file and its dry run against the store at `revision`
+type PinImportState = {
+  fileName: string | null
+  format: PinFileFormat
+  content: string
+  mode: PinImportMode
+  preview: PinImportPreview | null
+  revision: number
+  busy: boolean
+  error: string | null
+}
+
 const DRAG_THRESHOLD_PX = 4
 const MIN_ZOOM = 0.25
+// for a single image; tiled maps go further, down to their full resolution (see maxZoom)
 const MAX_ZOOM = 4.0
 const DEFAULT_ZOOM = 1.2
+// leave some room around a cluster's pins when zooming to it
+const CLUSTER_FIT_PADDING = 0.8
+// fly-to from the pin search
+const FLY_TO_ZOOM = 2.5
+const FLY_TO_DURATION_MS = 700
+// URL updates while panning are batched; replaceState keeps history clean
+const URL_SYNC_DELAY_MS = 300
+const HIDDEN_KINDS_STORAGE_KEY = "eonia:world-map:hidden-kinds"
+// touch: a second tap this soon and this close to the first zooms in
+const DOUBLE_TAP_MS = 300
+const DOUBLE_TAP_SLOP_PX = 24
+const DOUBLE_TAP_ZOOM = 2
+// inertial panning: speed (px/ms) is multiplied by INERTIA_FRICTION every 16 ms
+// until it drops below INERTIA_MIN_SPEED; a pan held still longer than
+// INERTIA_MAX_IDLE_MS before release doesn't glide
+const INERTIA_FRICTION = 0.92
+const INERTIA_MIN_SPEED = 0.02
+const INERTIA_MAX_IDLE_MS = 80
+// keyboard: arrow keys pan (Shift for bigger steps); in edit mode they nudge
+// the focused, selected pin instead, saving once the nudging pauses
+const KEY_PAN_STEP_PX = 80
+const KEY_NUDGE_STEP_PX = 2
+const KEY_FAST_FACTOR = 5
+const KEY_ZOOM_STEP = 1.25
+const NUDGE_SAVE_DELAY_MS = 600
+const ARROW_KEYS: Record<string, { dx: number; dy: number }> = {
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+}
+// zoom is announced to screen readers once it settles
+const ZOOM_ANNOUNCE_DELAY_MS = 500
 
 // TODO: use new maps.ts config file
 // line 642 uses property label and id
@@ -99,10 +244,57 @@ function clamp01(value: number) {
   return Math.min(1, Math.max(0, value))
 }
 
+function unsavedChangesPrompt(count: number) {
+  return `You have ${count} unsaved pin ${count === 1 ? "change" : "changes"}. Leave this page anyway?`
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value))
 }
 
+// Same rule as isPinOnMap in lib/worldMapPins (which can't be imported client-side).
+function pinOnMap(pin: { maps?: string[] }, mapId: string) {
+  return !pin.maps || pin.maps.includes(mapId)
+}
+
+// Legend visibility lives in localStorage; these back useSyncExternalStore.
+const hiddenKindsListeners = new Set<() => void>()
+
+function subscribeHiddenKinds(listener: () => void) {
+  hiddenKindsListeners.add(listener)
+  window.addEventListener("storage", listener)
+  return () => {
+    hiddenKindsListeners.delete(listener)
+    window.removeEventListener("storage", listener)
+  }
+}
+
+function readHiddenKinds() {
+  try {
+    return window.localStorage.getItem(HIDDEN_KINDS_STORAGE_KEY) ?? "[]"
+  } catch {
+    return "[]"
+  }
+}
+
+function writeHiddenKinds(kinds: string[]) {
+  try {
+    window.localStorage.setItem(HIDDEN_KINDS_STORAGE_KEY, JSON.stringify(kinds))
+  } catch {
+    // ignore (private mode, storage full)
+  }
+  hiddenKindsListeners.forEach((listener) => listener())
+}
+
+function parseHiddenKinds(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((k): k is string => typeof k === "string") : []
+  } catch {
+    return []
+  }
+}
+
 function newId() {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID()
   return `pin_${Date.now()}_${Math.random().toString(16).slice(2)}`
@@ -114,13 +306,23 @@ export function WorldMap({
   mapWidth = 1600,
   mapHeight = 900,
   initialPins,
+  initialPinsRevision = 0,
+  initialRegions,
+  initialRoutes,
   entrySummaries,
+  tileManifests = {},
+  initialView = {},
 }: WorldMapProps) {
   const [activeMapId, setActiveMapId] = useState<MapInfo["id"]>(
-    defaultMapId ?? maps[0].id
+    maps.find((m) => m.id === initialView.mapId)?.id ?? defaultMapId ?? maps[0].id
   )
 
   const activeMap = maps.find((m) => m.id === activeMapId) ?? maps[0]
+  const activeTiles = tileManifests[activeMapId] ?? null
+  // a tiled map keeps the same headroom past its full resolution that a single image has past its own
+  const maxZoom = activeTiles ? MAX_ZOOM * Math.max(1, activeTiles.width / activeTiles.baseWidth) : MAX_ZOOM
+  // distances in imgSize space, which for a tiled map is its base level
+  const mapScale = viewerMapScale(activeMap.scale, activeTiles)
 
   const router = useRouter()
   const containerRef = useRef<HTMLDivElement | null>(null)
@@ -128,8 +330,27 @@ export function WorldMap({
   const cameraInitializedRef = useRef(false)
   const cameraRef = useRef<{ scale: number; tx: number; ty: number }>({ scale: DEFAULT_ZOOM, tx: 0, ty: 0 })
   const pinsRef = useRef<WorldMapPin[]>(initialPins)
+  // last pin list confirmed by the server, used to work out what a save removes
+  const savedPinsRef = useRef<WorldMapPin[]>(initialPins)
+  // store revision savedPinsRef is at; pin saves are refused (409) once it is stale
+  const pinsRevisionRef = useRef(initialPinsRevision)
+  // pin saves run one after another, each diffing against what the last one stored
+  const pinSaveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const regionsRef = useRef<WorldMapRegion[]>(initialRegions)
+  const savedRegionsRef = useRef<WorldMapRegion[]>(initialRegions)
+  const savedRoutesRef = useRef<WorldMapRoute[]>(initialRoutes)
+  const vertexDragRef = useRef<{
+    regionId: string
+    index: number
+    pointerId: number
+    startClientX: number
+    startClientY: number
+    started: boolean
+    inserted: boolean // created from a midpoint handle, so it is a change even without moving
+  } | null>(null)
   const dragCandidateRef = useRef<{
     id: string
+    before: WorldMapPin | null // for the undo history
     pointerId: number
     startClientX: number
     startClientY: number
@@ -142,13 +363,65 @@ export function WorldMap({
     startTx: number
     startTy: number
     started: boolean
+    // pointer velocity in px/ms, smoothed over the last moves, for inertia
+    vx: number
+    vy: number
+    lastClientX: number
+    lastClientY: number
+    lastTime: number
+  } | null>(null)
+  // every pointer down on the viewport (client coordinates), for pinch gestures
+  const activePointersRef = useRef(new Map<number, { x: number; y: number }>())
+  const pinchRef = useRef<{
+    startDistance: number
+    startScale: number
+    // map point (camera space) under the fingers' midpoint when the pinch began
+    anchorX: number
+    anchorY: number
   } | null>(null)
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null)
   const lastPanEndedTimeStampRef = useRef<number>(0)
   const suppressNextClickRef = useRef<string | null>(null)
   const navTimeoutRef = useRef<number | null>(null)
+  const nudgeSaveTimerRef = useRef<number | null>(null)
+  // the running camera animation: a pin fly-to or an inertial glide
+  const flyFrameRef = useRef<number | null>(null)
+  // camera from the URL; applied whenever the camera (re)initializes until the user moves it
+  const pendingViewRef = useRef<MapView | null>(hasMapView(initialView) ? initialView : null)
 
   const [pins, setPins] = useState<WorldMapPin[]>(initialPins)
-  const [selectedId, setSelectedId] = useState<string | null>(initialPins[0]?.id ?? null)
+  // savedPinsRef for rendering: what the unsaved-changes count compares against
+  const [savedPins, setSavedPins] = useState<WorldMapPin[]>(initialPins)
+  const [pinHistory, setPinHistory] = useState<PinHistory>(EMPTY_PIN_HISTORY)
+  // a save hit pins someone else changed too; they pick whose version wins
+  const [mergePrompt, setMergePrompt] = useState<{
+    theirs: WorldMapPin[]
+    revision: number
+    conflictTitles: string[]
+    keepMine: WorldMapPin[]
+    keepTheirs: WorldMapPin[]
+  } | null>(null)
+  const [pinImport, setPinImport] = useState<PinImportState | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(() =>
+    hasMapView(initialView)
+      ? (initialPins.find((p) => p.id === initialView.pin)?.id ?? null)
+      : (initialPins[0]?.id ?? null),
+  )
+  const [regions, setRegions] = useState<WorldMapRegion[]>(initialRegions)
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null)
+  const [drawMode, setDrawMode] = useState(false)
+  const [draftPoints, setDraftPoints] = useState<RegionPoint[]>([])
+  const [routes, setRoutes] = useState<WorldMapRoute[]>(initialRoutes)
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null)
+  const [measureMode, setMeasureMode] = useState(false)
+  const [rulerPoints, setRulerPoints] = useState<RegionPoint[]>([])
+  const [compareMapId, setCompareMapId] = useState<string | null>(null)
+  const [compareMode, setCompareMode] = useState<CompareMode>("opacity")
+  const [compareOpacity, setCompareOpacity] = useState(0.5)
+  const [swipePosition, setSwipePosition] = useState(0.5)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [listOpen, setListOpen] = useState(false)
+  const [zoomAnnouncement, setZoomAnnouncement] = useState("")
   const [isAdmin, setIsAdmin] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
   const [createMode, setCreateMode] = useState(false)
@@ -160,11 +433,16 @@ export function WorldMap({
   const [navLoading, setNavLoading] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  // read through useSyncExternalStore so the server render (nothing hidden) hydrates cleanly
+  const hiddenKindsRaw = useSyncExternalStore(subscribeHiddenKinds, readHiddenKinds, () => "[]")
+  const hiddenKinds = useMemo(() => parseHiddenKinds(hiddenKindsRaw), [hiddenKindsRaw])
 
   // const [activeMapIndex, setActiveMapIndex] = useState(0)
   const [imgSize, setImgSize] = useState({ w: mapWidth, h: mapHeight })
 
   const [camera, setCamera] = useState(() => ({ scale: DEFAULT_ZOOM, tx: 0, ty: 0 }))
+  // mirrors viewportRef for rendering (pin culling)
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 })
 
   const handleImageLoad = (size: { w: number; h: number }) => {
     // ignore zeros (SVGs can sometimes do this) and ignore no-op updates
@@ -182,7 +460,39 @@ export function WorldMap({
 
 
   const selectedPin = useMemo(() => pins.find((p) => p.id === selectedId) ?? null, [pins, selectedId])
-  const selectedMdxCategory = selectedPin?.mdxCategory
+  const mapPins = useMemo(() => pins.filter((p) => pinOnMap(p, activeMapId)), [pins, activeMapId])
+  const visiblePins = useMemo(
+    () => mapPins.filter((p) => !hiddenKinds.includes(getPinKind(p.kind).id)),
+    [mapPins, hiddenKinds],
+  )
+  const kindCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    for (const p of mapPins) {
+      const id = getPinKind(p.kind).id
+      counts[id] = (counts[id] ?? 0) + 1
+    }
+    return counts
+  }, [mapPins])
+  const selectedRegion = useMemo(
+    () => regions.find((r) => r.id === selectedRegionId) ?? null,
+    [regions, selectedRegionId],
+  )
+  const mapRegions = useMemo(() => regions.filter((r) => pinOnMap(r, activeMapId)), [regions, activeMapId])
+  const selectedRoute = useMemo(() => routes.find((r) => r.id === selectedRouteId) ?? null, [routes, selectedRouteId])
+  const mapRoutes = useMemo(() => routes.filter((r) => pinOnMap(r, activeMapId)), [routes, activeMapId])
+
+  const compareMap = compareMapId && compareMapId !== activeMapId ? maps.find((m) => m.id === compareMapId) : undefined
+  const compareLayer: MapCompareLayer | null = compareMap
+    ? {
+        src: compareMap.src,
+        label: compareMap.label,
+        tiles: tileManifests[compareMap.id] ?? null,
+        mode: compareMode,
+        opacity: compareOpacity,
+        swipe: swipePosition,
+      }
+    : null
+  const selectedMdxCategory = selectedRegion?.mdxCategory ?? selectedPin?.mdxCategory
 
   const entryTitleByKey = useMemo(() => {
     const map = new Map<string, string>()
@@ -206,7 +516,8 @@ export function WorldMap({
   }, [entrySummaries, selectedMdxCategory])
 
   const canEdit = isAdmin && isEditing
-  const panelOpen = Boolean(selectedPin) || isEditing || confirmDeleteOpen
+  const unsavedCount = useMemo(() => countUnsavedPins(pins, savedPins), [pins, savedPins])
+  const panelOpen = (Boolean(selectedPin) || isEditing || confirmDeleteOpen) && !selectedRegion
 
   useEffect(() => {
     cameraRef.current = camera
@@ -216,8 +527,12 @@ export function WorldMap({
     pinsRef.current = pins
   }, [pins])
 
+  useEffect(() => {
+    regionsRef.current = regions
+  }, [regions])
+
   const clampCamera = (next: { scale: number; tx: number; ty: number }) => {
-    const scale = clamp(next.scale, MIN_ZOOM, MAX_ZOOM)
+    const scale = clamp(next.scale, MIN_ZOOM, maxZoom)
 
     const viewportWidth = viewportRef.current.width
     const viewportHeight = viewportRef.current.height
@@ -282,9 +597,24 @@ export function WorldMap({
     const updateViewportAndCamera = () => {
       const rect = el.getBoundingClientRect()
       viewportRef.current = { width: rect.width, height: rect.height }
+      setViewportSize((prev) =>
+        prev.width === rect.width && prev.height === rect.height ? prev : { width: rect.width, height: rect.height },
+      )
 
       if (!cameraInitializedRef.current) {
         cameraInitializedRef.current = true
+        const view = pendingViewRef.current
+        if (view?.z !== undefined || view?.cx !== undefined || view?.cy !== undefined) {
+          const scale = clamp(view.z ?? DEFAULT_ZOOM, MIN_ZOOM, maxZoom)
+          setCamera(
+            clampCamera({
+              scale,
+              tx: rect.width / 2 - (view.cx ?? 0.5) * imgSize.w * scale,
+              ty: rect.height / 2 - (view.cy ?? 0.5) * imgSize.h * scale,
+            }),
+          )
+          return
+        }
         setCamera(
           clampCamera({
             scale: DEFAULT_ZOOM,
@@ -316,9 +646,43 @@ export function WorldMap({
   useEffect(() => {
     return () => {
       if (navTimeoutRef.current) window.clearTimeout(navTimeoutRef.current)
+      if (flyFrameRef.current) window.cancelAnimationFrame(flyFrameRef.current)
+      if (nudgeSaveTimerRef.current) window.clearTimeout(nudgeSaveTimerRef.current)
     }
   }, [])
 
+  useEffect(() => {
+    const timer = window.setTimeout(() => setZoomAnnouncement(`Zoom ${Math.round(camera.scale * 100)}%`), ZOOM_ANNOUNCE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [camera.scale])
+
+  // Mirror map, camera center, zoom and selection into the URL.
+  useEffect(() => {
+    const { width, height } = viewportRef.current
+    if (width <= 0 || height <= 0) return
+    const t = window.setTimeout(() => {
+      const search = mapViewToSearch(
+        {
+          mapId: activeMapId,
+          pin: selectedId ?? undefined,
+          z: camera.scale,
+          cx: clamp01((width / 2 - camera.tx) / (camera.scale * imgSize.w)),
+          cy: clamp01((height / 2 - camera.ty) / (camera.scale * imgSize.h)),
+        },
+        defaultMapId,
+      )
+      const url = `${window.location.pathname}${search ? `?${search}` : ""}`
+      window.history.replaceState(window.history.state, "", url)
+    }, URL_SYNC_DELAY_MS)
+    return () => window.clearTimeout(t)
+  }, [activeMapId, selectedId, camera, imgSize.w, imgSize.h, defaultMapId])
+
+  useEffect(() => {
+    if (!linkCopied) return
+    const t = setTimeout(() => setLinkCopied(false), 2000)
+    return () => clearTimeout(t)
+  }, [linkCopied])
+
   useEffect(() => {
     if (!message) return
     const t = setTimeout(() => setMessage(null), 2500)
@@ -340,11 +704,28 @@ export function WorldMap({
 
 
 
+  const toggleKind = (kindId: string) => {
+    const next = hiddenKinds.includes(kindId) ? hiddenKinds.filter((k) => k !== kindId) : [...hiddenKinds, kindId]
+    writeHiddenKinds(next)
+  }
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+    } catch {
+      setError("Could not copy the link.")
+    }
+  }
+
   const exitEditMode = () => {
     setIsEditing(false)
     setCreateMode(false)
+    setDrawMode(false)
+    setDraftPoints([])
     setDraggingId(null)
     dragCandidateRef.current = null
+    vertexDragRef.current = null
   }
 
   const toggleEditMode = () => {
@@ -386,50 +767,562 @@ export function WorldMap({
     setPins((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)))
   }
 
+  const recordPinChange = (
+    kind: PinCommandKind,
+    pinId: string,
+    before: WorldMapPin | null,
+    after: WorldMapPin | null,
+    index: number,
+  ) => {
+    setPinHistory((prev) => recordPinCommand(prev, { kind, pinId, before, after, index, time: Date.now() }))
+  }
+
+  // setPin for the editor panel's fields, recorded in the undo history
+  const editPin = (id: string, patch: Partial<WorldMapPin>) => {
+    const index = pinsRef.current.findIndex((p) => p.id === id)
+    const before = pinsRef.current[index]
+    if (!before) return
+    const after = { ...before, ...patch }
+    const nextPins = pinsRef.current.map((p, i) => (i === index ? after : p))
+    pinsRef.current = nextPins
+    setPins(nextPins)
+    recordPinChange("edit", id, before, after, index)
+  }
+
+  const stepPinHistory = (direction: "undo" | "redo") => {
+    const result =
+      direction === "undo" ? undoPinCommand(pinsRef.current, pinHistory) : redoPinCommand(pinsRef.current, pinHistory)
+    if (!result) return
+    // a pending keyboard-nudge save would store the state being stepped away from
+    if (nudgeSaveTimerRef.current) window.clearTimeout(nudgeSaveTimerRef.current)
+    nudgeSaveTimerRef.current = null
+    pinsRef.current = result.pins
+    setPins(result.pins)
+    setPinHistory(result.history)
+    const restored = direction === "undo" ? result.command.before : result.command.after
+    setSelectedId(restored ? result.command.pinId : null)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
+    setError(null)
+    setMessage(`${direction === "undo" ? "Undid" : "Redid"} ${describePinCommand(result.command)}. Save to keep it.`)
+  }
+
+  const onUndoRedoKey = useEffectEvent((event: globalThis.KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+    const key = event.key.toLowerCase()
+    const redo = (key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey)
+    if (key !== "z" && !redo) return
+    // text fields keep their own undo
+    const target = event.target instanceof HTMLElement ? event.target : null
+    if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+    event.preventDefault()
+    stepPinHistory(redo ? "redo" : "undo")
+  })
+
+  useEffect(() => {
+    if (!canEdit) return
+    window.addEventListener("keydown", onUndoRedoKey)
+    return () => window.removeEventListener("keydown", onUndoRedoKey)
+  }, [canEdit])
+
+  // Unsaved pin edits: confirm before the tab closes or a link leaves the page.
+  useEffect(() => {
+    if (unsavedCount === 0) return
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+      event.returnValue = ""
+    }
+    const onDocumentClick = (event: MouseEvent) => {
+      if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) return
+      const link = event.target instanceof Element ? event.target.closest("a[href]") : null
+      if (!(link instanceof HTMLAnchorElement) || link.target === "_blank") return
+      const url = new URL(link.href, window.location.href)
+      if (url.origin === window.location.origin && url.pathname === window.location.pathname) return
+      if (window.confirm(unsavedChangesPrompt(unsavedCount))) return
+      event.preventDefault()
+      event.stopPropagation()
+    }
+    window.addEventListener("beforeunload", onBeforeUnload)
+    document.addEventListener("click", onDocumentClick, true)
+    return () => {
+      window.removeEventListener("beforeunload", onBeforeUnload)
+      document.removeEventListener("click", onDocumentClick, true)
+    }
+  }, [unsavedCount])
+
   const createPinAt = (x: number, y: number) => {
     const id = newId()
-    const pin: WorldMapPin = { id, x: clamp01(x), y: clamp01(y), title: "New pin" }
+    const pin: WorldMapPin = { id, x: clamp01(x), y: clamp01(y), title: "New pin", maps: [activeMapId] }
     setPins((prev) => [pin, ...prev])
+    recordPinChange("create", id, null, pin, 0)
     setSelectedId(id)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
     setMessage("Created a new pin.")
   }
 
-  const savePins = async (pinsToSave?: WorldMapPin[]) => {
+  const savePins = (pinsToSave?: WorldMapPin[]) => {
+    const run = pinSaveQueueRef.current.then(() => savePinChanges(pinsToSave ?? pinsRef.current))
+    pinSaveQueueRef.current = run
+    return run
+  }
+
+  /**
+   * Sends the difference between the last saved pins and `target` through the
+   * per-pin API, one request per changed pin, each under the current revision.
+   * A 409 means another editor saved first: their pins are merged with these
+   * edits, silently when no pin was changed by both, otherwise via mergePrompt.
+   */
+  const savePinChanges = async (target: WorldMapPin[]) => {
     setSaveState("saving")
     setError(null)
+    const ops = diffPins(savedPinsRef.current, target, activeMapId, maps.map((m) => m.id))
+    try {
+      for (const op of ops) {
+        const { url, method, body } = pinSaveRequest(op)
+        const res = await fetch(url, {
+          method,
+          headers: { "Content-Type": "application/json", "If-Match": pinsETag(pinsRevisionRef.current) },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+        const data = await res.json().catch(() => ({}))
+        if (res.status === 409 && Array.isArray(data?.pins) && typeof data?.revision === "number") {
+          mergeWithStoredPins(data.pins, data.revision)
+          return
+        }
+        if (!res.ok) {
+          setError(data?.error ?? "Save failed.")
+          setSaveState("error")
+          return
+        }
+        if (typeof data?.revision === "number") pinsRevisionRef.current = data.revision
+        savedPinsRef.current = applyPinSaveOp(savedPinsRef.current, op, data?.pin)
+      }
+
+      // adopt the server's normalized copies of what was sent, unless edited since;
+      // a pin taken off this map comes back with the maps it is still on
+      const storedById = new Map(savedPinsRef.current.map((p) => [p.id, p]))
+      const sentById = new Map(target.map((p) => [p.id, p]))
+      const localIds = new Set(pinsRef.current.map((p) => p.id))
+      const unlisted = ops.flatMap((op) => {
+        const stored = op.type === "unlist" && !localIds.has(op.id) ? storedById.get(op.id) : undefined
+        return stored ? [stored] : []
+      })
+      const nextPins = [
+        ...pinsRef.current.map((p) => (samePin(p, sentById.get(p.id)) ? (storedById.get(p.id) ?? p) : p)),
+        ...unlisted,
+      ]
+      pinsRef.current = nextPins
+      setPins(nextPins)
+      setSaveState("saved")
+      setTimeout(() => setSaveState("idle"), 1500)
+      setMessage(ops.length ? "Pins saved." : "No pin changes to save.")
+    } catch {
+      setError("Save failed.")
+      setSaveState("error")
+    } finally {
+      setSavedPins(savedPinsRef.current)
+    }
+  }
+
+  const adoptMergedPins = (theirs: WorldMapPin[], revision: number, merged: WorldMapPin[]) => {
+    savedPinsRef.current = theirs
+    setSavedPins(theirs)
+    pinsRevisionRef.current = revision
+    pinsRef.current = merged
+    setPins(merged)
+  }
+
+  const mergeWithStoredPins = (theirs: WorldMapPin[], revision: number) => {
+    const merge = mergePins(savedPinsRef.current, pinsRef.current, theirs)
+    if (!merge.conflicts.length) {
+      adoptMergedPins(theirs, revision, merge.keepMine)
+      setMessage("Merged with changes from another editor. Saving…")
+      void savePins(merge.keepMine)
+      return
+    }
+    const titleById = new Map([...theirs, ...pinsRef.current].map((p) => [p.id, p.title]))
+    setMergePrompt({
+      theirs,
+      revision,
+      conflictTitles: merge.conflicts.map((id) => titleById.get(id) ?? id),
+      keepMine: merge.keepMine,
+      keepTheirs: merge.keepTheirs,
+    })
+    setSaveState("error")
+    setError("Another editor changed the same pins. Choose which version to keep.")
+  }
+
+  const resolveMerge = (keep: "mine" | "theirs") => {
+    if (!mergePrompt) return
+    const merged = keep === "mine" ? mergePrompt.keepMine : mergePrompt.keepTheirs
+    adoptMergedPins(mergePrompt.theirs, mergePrompt.revision, merged)
+    setMergePrompt(null)
+    setSelectedId((id) => (id && merged.some((p) => p.id === id) ? id : null))
+    void savePins(merged)
+  }
+
+  // asks the server what importing the file would change; nothing is written
+  const previewPinImport = async (next: PinImportState) => {
+    setPinImport({ ...next, preview: null, busy: true, error: null })
     try {
-      const res = await fetch("/api/world-map-pins", {
+      const res = await fetch("/api/world-map-pins/import", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ pins: pinsToSave ?? pins }),
+        body: JSON.stringify({ format: next.format, content: next.content, mode: next.mode, dryRun: true }),
       })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setPinImport({ ...next, preview: null, busy: false, error: data?.error ?? "Could not read the file." })
+        return
+      }
+      setPinImport({
+        ...next,
+        preview: { added: data.added ?? [], changed: data.changed ?? [], removed: data.removed ?? [] },
+        revision: data.revision,
+        busy: false,
+        error: null,
+      })
+    } catch {
+      setPinImport({ ...next, preview: null, busy: false, error: "Could not read the file." })
+    }
+  }
+
+  const choosePinImportFile = async (file: File) => {
+    if (!pinImport) return
+    const format: PinFileFormat = /\.csv$/i.test(file.name) || file.type === "text/csv" ? "csv" : "geojson"
+    try {
+      const content = await file.text()
+      void previewPinImport({ ...pinImport, fileName: file.name, format, content })
+    } catch {
+      setPinImport({ ...pinImport, fileName: file.name, preview: null, error: "Could not read the file." })
+    }
+  }
+
+  /**
+   * Imports the previewed file. The store has to still be at the previewed
+   * revision; if it moved on, the preview is redone for the editor to check
+   * again. Local unsaved edits are replaced by the imported store.
+   */
+  const applyPinImport = async () => {
+    if (!pinImport?.preview) return
+    const current = pinImport
+    setPinImport({ ...current, busy: true, error: null })
+    try {
+      const res = await fetch("/api/world-map-pins/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "If-Match": pinsETag(current.revision) },
+        body: JSON.stringify({ format: current.format, content: current.content, mode: current.mode }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (res.status === 409) {
+        await previewPinImport(current)
+        setPinImport((prev) => prev && { ...prev, error: "Pins changed since the preview. Check the changes again." })
+        return
+      }
+      if (!res.ok || !Array.isArray(data?.pins)) {
+        setPinImport({ ...current, busy: false, error: data?.error ?? "Import failed." })
+        return
+      }
+
+      const imported: WorldMapPin[] = data.pins
+      savedPinsRef.current = imported
+      setSavedPins(imported)
+      pinsRevisionRef.current = data.revision
+      pinsRef.current = imported
+      setPins(imported)
+      // undoing edits made before the import would fight the imported pins
+      setPinHistory(EMPTY_PIN_HISTORY)
+      setSelectedId((id) => (id && imported.some((p) => p.id === id) ? id : null))
+      setPinImport(null)
+      setError(null)
+      setMessage(`Imported pins: ${data.added} added, ${data.changed} changed, ${data.removed} removed.`)
+    } catch {
+      setPinImport({ ...current, busy: false, error: "Import failed." })
+    }
+  }
+
+  const setRegion = (id: string, patch: Partial<WorldMapRegion>) => {
+    setRegions((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const saveRegions = async (regionsToSave?: WorldMapRegion[]) => {
+    setSaveState("saving")
+    setError(null)
+    // same payload rule as savePins
+    const mapId = activeMapId
+    const wasOnMap = new Set(savedRegionsRef.current.filter((r) => pinOnMap(r, mapId)).map((r) => r.id))
+    const payload = (regionsToSave ?? regions).filter((r) => pinOnMap(r, mapId) || wasOnMap.has(r.id))
+    try {
+      const res = await fetch("/api/world-map-regions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapId, regions: payload }),
+      })
+      const data = await res.json().catch(() => ({}))
       if (!res.ok) {
-        const data = await res.json().catch(() => ({}))
         setError(data?.error ?? "Save failed.")
         setSaveState("error")
         return
       }
+      if (Array.isArray(data?.regions)) {
+        savedRegionsRef.current = data.regions
+        regionsRef.current = data.regions
+        setRegions(data.regions)
+      }
       setSaveState("saved")
       setTimeout(() => setSaveState("idle"), 1500)
-      setMessage("Pins saved.")
+      setMessage("Regions saved.")
     } catch {
       setError("Save failed.")
       setSaveState("error")
     }
   }
 
+  const toggleDrawMode = () => {
+    setDraftPoints([])
+    setDrawMode((prev) => !prev)
+    setCreateMode(false)
+  }
+
+  const cancelDraft = () => {
+    setDrawMode(false)
+    setDraftPoints([])
+  }
+
+  const finishDraft = () => {
+    if (draftPoints.length < 3) {
+      setMessage("A region needs at least 3 points.")
+      return
+    }
+    const region: WorldMapRegion = { id: newId(), title: "New region", points: draftPoints, maps: [activeMapId] }
+    const nextRegions = [region, ...regionsRef.current]
+    regionsRef.current = nextRegions
+    setRegions(nextRegions)
+    cancelDraft()
+    setSelectedId(null)
+    setSelectedRegionId(region.id)
+    void saveRegions(nextRegions)
+  }
+
+  const onRegionClick = (event: React.MouseEvent, region: WorldMapRegion) => {
+    event.stopPropagation()
+    if (event.timeStamp - lastPanEndedTimeStampRef.current < 150) return
+    const isSameRegion = selectedRegionId === region.id
+    setSelectedId(null)
+    setSelectedRouteId(null)
+    setSelectedRegionId(region.id)
+    if (isEditing || !isSameRegion) return
+
+    if (region.mdxCategory && region.mdxSlug) {
+      openEntryPrompt(region.mdxCategory, region.mdxSlug)
+      return
+    }
+    setMessage("This region doesn't have a linked MDX page yet.")
+  }
+
+  const openEntryPrompt = (category: string, slug: string) => {
+    const href = `/lore/${category}/${slug}`
+    const title = entryTitleByKey.get(`${category}/${slug}`) ?? href
+    setNavLoading(false)
+    setNavPrompt({ title, href })
+  }
+
+  const beginVertexDrag = (event: PointerEvent<SVGCircleElement>, regionId: string, index: number, inserted: boolean) => {
+    vertexDragRef.current = {
+      regionId,
+      index,
+      pointerId: event.pointerId,
+      startClientX: event.clientX,
+      startClientY: event.clientY,
+      started: false,
+      inserted,
+    }
+    try {
+      event.currentTarget.setPointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+  }
+
+  const onVertexPointerDown = (event: PointerEvent<SVGCircleElement>, index: number) => {
+    event.stopPropagation()
+    if (!canEdit || !selectedRegion || event.button !== 0) return
+    beginVertexDrag(event, selectedRegion.id, index, false)
+  }
+
+  // Splits the edge after `index` and starts dragging the new vertex.
+  const onMidpointPointerDown = (event: PointerEvent<SVGCircleElement>, index: number) => {
+    event.stopPropagation()
+    if (!canEdit || !selectedRegion || event.button !== 0) return
+    const { points } = selectedRegion
+    const a = points[index]
+    const b = points[(index + 1) % points.length]
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    setRegion(selectedRegion.id, { points: [...points.slice(0, index + 1), mid, ...points.slice(index + 1)] })
+    beginVertexDrag(event, selectedRegion.id, index + 1, true)
+  }
+
+  const onVertexPointerMove = (event: PointerEvent<SVGCircleElement>) => {
+    const drag = vertexDragRef.current
+    if (!drag || event.pointerId !== drag.pointerId) return
+    event.stopPropagation()
+    if (!drag.started) {
+      const dx = event.clientX - drag.startClientX
+      const dy = event.clientY - drag.startClientY
+      if (dx * dx + dy * dy < DRAG_THRESHOLD_PX * DRAG_THRESHOLD_PX) return
+      drag.started = true
+    }
+    const next = clientToNormalized(event.clientX, event.clientY)
+    if (!next) return
+    setRegions((prev) =>
+      prev.map((r) =>
+        r.id === drag.regionId ? { ...r, points: r.points.map((p, i) => (i === drag.index ? next : p)) } : r,
+      ),
+    )
+  }
+
+  const onVertexPointerUp = (event: PointerEvent<SVGCircleElement>) => {
+    event.stopPropagation()
+    try {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+    const drag = vertexDragRef.current
+    vertexDragRef.current = null
+    if (!drag || (!drag.started && !drag.inserted)) return
+
+    const finalPos = drag.started ? clientToNormalized(event.clientX, event.clientY) : null
+    const nextRegions = regionsRef.current.map((r) =>
+      r.id === drag.regionId && finalPos
+        ? { ...r, points: r.points.map((p, i) => (i === drag.index ? finalPos : p)) }
+        : r,
+    )
+    regionsRef.current = nextRegions
+    setRegions(nextRegions)
+    void saveRegions(nextRegions)
+  }
+
+  const onVertexDoubleClick = (index: number) => {
+    if (!canEdit || !selectedRegion) return
+    if (selectedRegion.points.length <= 3) {
+      setMessage("A region needs at least 3 points.")
+      return
+    }
+    const nextRegions = regionsRef.current.map((r) =>
+      r.id === selectedRegion.id ? { ...r, points: r.points.filter((_, i) => i !== index) } : r,
+    )
+    regionsRef.current = nextRegions
+    setRegions(nextRegions)
+    void saveRegions(nextRegions)
+  }
+
+  const setRoute = (id: string, patch: Partial<WorldMapRoute>) => {
+    setRoutes((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const saveRoutes = async (routesToSave?: WorldMapRoute[]) => {
+    setSaveState("saving")
+    setError(null)
+    // same payload rule as savePins
+    const mapId = activeMapId
+    const wasOnMap = new Set(savedRoutesRef.current.filter((r) => pinOnMap(r, mapId)).map((r) => r.id))
+    const payload = (routesToSave ?? routes).filter((r) => pinOnMap(r, mapId) || wasOnMap.has(r.id))
+    try {
+      const res = await fetch("/api/world-map-routes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapId, routes: payload }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data?.error ?? "Save failed.")
+        setSaveState("error")
+        return
+      }
+      if (Array.isArray(data?.routes)) {
+        savedRoutesRef.current = data.routes
+        setRoutes(data.routes)
+      }
+      setSaveState("saved")
+      setTimeout(() => setSaveState("idle"), 1500)
+      setMessage("Routes saved.")
+    } catch {
+      setError("Save failed.")
+      setSaveState("error")
+    }
+  }
+
+  const toggleMeasureMode = () => {
+    setRulerPoints([])
+    setMeasureMode((prev) => !prev)
+    setSelectedRouteId(null)
+    setCreateMode(false)
+    cancelDraft()
+  }
+
+  const addRulerPoint = (point: RegionPoint) => {
+    setRulerPoints((prev) => [...prev, point])
+  }
+
+  const saveRulerAsRoute = (title: string, kind: string) => {
+    if (rulerPoints.length < 2) return
+    const route: WorldMapRoute = { id: newId(), title, kind, points: rulerPoints, maps: [activeMapId] }
+    const nextRoutes = [route, ...routes]
+    setRoutes(nextRoutes)
+    setMeasureMode(false)
+    setRulerPoints([])
+    setSelectedId(null)
+    setSelectedRegionId(null)
+    setSelectedRouteId(route.id)
+    void saveRoutes(nextRoutes)
+  }
+
+  const onRouteClick = (event: React.MouseEvent, route: WorldMapRoute) => {
+    event.stopPropagation()
+    if (event.timeStamp - lastPanEndedTimeStampRef.current < 150) return
+    setSelectedId(null)
+    setSelectedRegionId(null)
+    setSelectedRouteId(route.id)
+  }
+
   const requestDeleteSelected = () => {
-    if (!selectedPin || !isAdmin || !isEditing) return
+    if ((!selectedPin && !selectedRegion && !selectedRoute) || !isAdmin || !isEditing) return
     setConfirmDeleteOpen(true)
   }
 
   const confirmDeleteSelected = async () => {
+    if (selectedRouteId) {
+      setConfirmDeleteOpen(false)
+      const nextRoutes = routes.filter((r) => r.id !== selectedRouteId)
+      setRoutes(nextRoutes)
+      setSelectedRouteId(null)
+      setMessage("Route deleted. Saving…")
+      await saveRoutes(nextRoutes)
+      return
+    }
+    if (selectedRegionId) {
+      setConfirmDeleteOpen(false)
+      const nextRegions = regions.filter((r) => r.id !== selectedRegionId)
+      setRegions(nextRegions)
+      setSelectedRegionId(null)
+      setMessage("Region deleted. Saving…")
+      await saveRegions(nextRegions)
+      return
+    }
     if (!selectedId) return
     setConfirmDeleteOpen(false)
-    const nextPins = pins.filter((p) => p.id !== selectedId)
+    const index = pins.findIndex((p) => p.id === selectedId)
+    if (index < 0) return
+    // a pin that is on other maps too only leaves this one
+    const rest = removePinFromMap(pins[index], activeMapId, maps.map((m) => m.id))
+    const nextPins = rest ? pins.map((p, i) => (i === index ? rest : p)) : pins.filter((_, i) => i !== index)
+    pinsRef.current = nextPins
     setPins(nextPins)
+    recordPinChange(rest ? "edit" : "delete", selectedId, pins[index], rest, index)
     setSelectedId(null)
-    setMessage("Pin deleted. Saving…")
+    setMessage(`${rest ? "Pin removed from this map" : "Pin deleted"}. Saving… (Ctrl+Z undoes it)`)
 
     await savePins(nextPins)
   }
@@ -442,11 +1335,14 @@ export function WorldMap({
 
   const onPinPointerDown = (event: PointerEvent<HTMLButtonElement>, id: string) => {
     event.stopPropagation()
-    if (!isEditing) return
+    if (!isEditing || measureMode) return
     if (event.button !== 0) return
     setSelectedId(id)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
     dragCandidateRef.current = {
       id,
+      before: pinsRef.current.find((p) => p.id === id) ?? null,
       pointerId: event.pointerId,
       startClientX: event.clientX,
       startClientY: event.clientY,
@@ -494,6 +1390,8 @@ export function WorldMap({
         const nextPins = pinsRef.current.map((p) => (p.id === candidate.id ? { ...p, ...finalPos } : p))
         pinsRef.current = nextPins
         setPins(nextPins)
+        const index = nextPins.findIndex((p) => p.id === candidate.id)
+        if (candidate.before && index >= 0) recordPinChange("move", candidate.id, candidate.before, nextPins[index], index)
         if (canEdit) void savePins(nextPins)
       }
       suppressNextClickRef.current = candidate.id
@@ -507,8 +1405,15 @@ export function WorldMap({
 
   const onPinClick = (event: React.MouseEvent, pin: WorldMapPin) => {
     event.stopPropagation()
+    // measuring snaps to the pin instead of selecting it
+    if (measureMode) {
+      addRulerPoint({ x: pin.x, y: pin.y })
+      return
+    }
     const isSamePin = selectedId === pin.id
     setSelectedId(pin.id)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
     if (isEditing) {
       setCreateMode(false)
       return
@@ -518,10 +1423,7 @@ export function WorldMap({
     if (!isSamePin) return
 
     if (pin.mdxCategory && pin.mdxSlug) {
-      const href = `/lore/${pin.mdxCategory}/${pin.mdxSlug}`
-      const title = entryTitleByKey.get(`${pin.mdxCategory}/${pin.mdxSlug}`) ?? href
-      setNavLoading(false)
-      setNavPrompt({ title, href })
+      openEntryPrompt(pin.mdxCategory, pin.mdxSlug)
       return
     }
     setMessage("This pin doesn't have a linked MDX page yet.")
@@ -547,7 +1449,7 @@ export function WorldMap({
     const cy = clientY - rect.top
 
     setCamera((prev) => {
-      const scale = clamp(nextScale, MIN_ZOOM, MAX_ZOOM)
+      const scale = clamp(nextScale, MIN_ZOOM, maxZoom)
       const mapX = (cx - prev.tx) / prev.scale
       const mapY = (cy - prev.ty) / prev.scale
       const tx = cx - mapX * scale
@@ -556,33 +1458,211 @@ export function WorldMap({
     })
   }
 
+  // Fits the cluster's pins into the viewport, always zooming in at least one step.
+  const zoomToCluster = (cluster: PinCluster) => {
+    const { width, height } = viewportRef.current
+    if (width <= 0 || height <= 0) return
+    const { minX, minY, maxX, maxY } = cluster.bounds
+    const spanW = (maxX - minX) * imgSize.w
+    const spanH = (maxY - minY) * imgSize.h
+    const fit = Math.min(width / Math.max(spanW, 1), height / Math.max(spanH, 1)) * CLUSTER_FIT_PADDING
+    const scale = clamp(Math.max(fit, camera.scale * 1.5), MIN_ZOOM, maxZoom)
+    const cx = ((minX + maxX) / 2) * imgSize.w
+    const cy = ((minY + maxY) / 2) * imgSize.h
+    setCamera(clampCamera({ scale, tx: width / 2 - cx * scale, ty: height / 2 - cy * scale }))
+  }
+
+  // Minimap navigation: keeps the zoom and moves the viewport's center onto (x, y).
+  const centerOn = (x: number, y: number) => {
+    cancelFlyTo()
+    const { width, height } = viewportRef.current
+    if (width <= 0 || height <= 0) return
+    setCamera((prev) =>
+      clampCamera({ ...prev, tx: width / 2 - x * imgSize.w * prev.scale, ty: height / 2 - y * imgSize.h * prev.scale }),
+    )
+  }
+
+  const cancelFlyTo = () => {
+    pendingViewRef.current = null
+    if (flyFrameRef.current) window.cancelAnimationFrame(flyFrameRef.current)
+    flyFrameRef.current = null
+  }
+
+  /**
+   * Animates the camera to center on a pin, then selects it. Scale eases
+   * geometrically and the centered map point linearly, so the zoom feels even;
+   * every frame goes through clampCamera like any other camera move.
+   */
+  const flyToPin = (pin: WorldMapPin) => {
+    cancelFlyTo()
+    const { width, height } = viewportRef.current
+    if (width <= 0 || height <= 0) {
+      setSelectedId(pin.id)
+      return
+    }
+
+    const from = cameraRef.current
+    const fromCenter = { x: (width / 2 - from.tx) / from.scale, y: (height / 2 - from.ty) / from.scale }
+    const toCenter = { x: pin.x * imgSize.w, y: pin.y * imgSize.h }
+    const toScale = clamp(Math.max(from.scale, FLY_TO_ZOOM), MIN_ZOOM, maxZoom)
+    const start = performance.now()
+
+    const frame = (now: number) => {
+      const t = Math.min(1, (now - start) / FLY_TO_DURATION_MS)
+      const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+      const scale = from.scale * Math.pow(toScale / from.scale, eased)
+      const cx = fromCenter.x + (toCenter.x - fromCenter.x) * eased
+      const cy = fromCenter.y + (toCenter.y - fromCenter.y) * eased
+      setCamera(clampCamera({ scale, tx: width / 2 - cx * scale, ty: height / 2 - cy * scale }))
+
+      if (t < 1) {
+        flyFrameRef.current = window.requestAnimationFrame(frame)
+      } else {
+        flyFrameRef.current = null
+        setSelectedId(pin.id)
+      }
+    }
+    flyFrameRef.current = window.requestAnimationFrame(frame)
+  }
+
+  const choosePinFromSearch = (pin: WorldMapPin) => {
+    // a hidden category would keep the pin invisible after flying to it
+    const kindId = getPinKind(pin.kind).id
+    if (hiddenKinds.includes(kindId)) toggleKind(kindId)
+    setCreateMode(false)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
+    flyToPin(pin)
+  }
+
   const onWheel = (event: WheelEvent<HTMLDivElement>) => {
     event.preventDefault()
     event.stopPropagation()
     if (navPrompt) return
+    cancelFlyTo()
 
     const current = camera.scale
     const zoomFactor = Math.exp(-event.deltaY * 0.0015)
-    const next = clamp(current * zoomFactor, MIN_ZOOM, MAX_ZOOM)
+    const next = clamp(current * zoomFactor, MIN_ZOOM, maxZoom)
     zoomAt(next, event.clientX, event.clientY)
   }
 
-  const onViewportPointerDown = (event: PointerEvent<HTMLDivElement>) => {
-    if (event.button !== 0) return
-    if (navPrompt) return
-    event.currentTarget.focus()
+  const startPan = (pointerId: number, clientX: number, clientY: number, timeStamp: number, started: boolean) => {
     const { tx, ty } = cameraRef.current
     panCandidateRef.current = {
-      pointerId: event.pointerId,
-      startClientX: event.clientX,
-      startClientY: event.clientY,
+      pointerId,
+      startClientX: clientX,
+      startClientY: clientY,
       startTx: tx,
       startTy: ty,
-      started: false,
+      started,
+      vx: 0,
+      vy: 0,
+      lastClientX: clientX,
+      lastClientY: clientY,
+      lastTime: timeStamp,
+    }
+  }
+
+  // Midpoint (relative to the viewport) and spread of the first two active pointers.
+  const pinchGeometry = () => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    const [a, b] = [...activePointersRef.current.values()]
+    if (!rect || !a || !b) return null
+    return {
+      midX: (a.x + b.x) / 2 - rect.left,
+      midY: (a.y + b.y) / 2 - rect.top,
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+    }
+  }
+
+  const startPinch = () => {
+    const geometry = pinchGeometry()
+    if (!geometry) return
+    const { scale, tx, ty } = cameraRef.current
+    pinchRef.current = {
+      startDistance: geometry.distance,
+      startScale: scale,
+      anchorX: (geometry.midX - tx) / scale,
+      anchorY: (geometry.midY - ty) / scale,
+    }
+    // a pinch is never a click or a pan
+    panCandidateRef.current = null
+    lastTapRef.current = null
+    setIsPanning(true)
+    setCreateMode(false)
+  }
+
+  /**
+   * Keeps gliding after a flick, slowing down each frame. Uses the fly-to
+   * frame slot, so any new wheel, pointer or fly-to input stops it.
+   */
+  const startInertia = (vx: number, vy: number) => {
+    cancelFlyTo()
+    let velocityX = vx
+    let velocityY = vy
+    let last = performance.now()
+
+    const frame = (now: number) => {
+      const dt = Math.min(64, now - last)
+      last = now
+      const decay = Math.pow(INERTIA_FRICTION, dt / 16)
+      velocityX *= decay
+      velocityY *= decay
+      if (Math.hypot(velocityX, velocityY) < INERTIA_MIN_SPEED) {
+        flyFrameRef.current = null
+        return
+      }
+      setCamera((prev) => clampCamera({ ...prev, tx: prev.tx + velocityX * dt, ty: prev.ty + velocityY * dt }))
+      flyFrameRef.current = window.requestAnimationFrame(frame)
+    }
+    flyFrameRef.current = window.requestAnimationFrame(frame)
+  }
+
+  const onViewportPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    if (navPrompt) return
+    cancelFlyTo()
+    event.currentTarget.focus()
+    // a primary pointer starts a fresh gesture; drop any pointer whose up we never saw
+    if (event.isPrimary) {
+      activePointersRef.current.clear()
+      pinchRef.current = null
     }
+    activePointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY })
+    if (activePointersRef.current.size === 2) {
+      startPinch()
+      return
+    }
+    if (activePointersRef.current.size > 2) return
+    startPan(event.pointerId, event.clientX, event.clientY, event.timeStamp, false)
   }
 
   const onViewportPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const tracked = activePointersRef.current.get(event.pointerId)
+    if (tracked) {
+      tracked.x = event.clientX
+      tracked.y = event.clientY
+    }
+
+    const pinch = pinchRef.current
+    if (pinch) {
+      if (!tracked) return
+      const geometry = pinchGeometry()
+      if (!geometry) return
+      // zoom by the change in finger spread, keeping the anchored map point
+      // under the midpoint, so moving both fingers together pans
+      const scale = clamp((pinch.startScale * geometry.distance) / pinch.startDistance, MIN_ZOOM, maxZoom)
+      setCamera(
+        clampCamera({
+          scale,
+          tx: geometry.midX - pinch.anchorX * scale,
+          ty: geometry.midY - pinch.anchorY * scale,
+        }),
+      )
+      return
+    }
+
     const pan = panCandidateRef.current
     if (!pan) return
     if (event.pointerId !== pan.pointerId) return
@@ -607,6 +1687,15 @@ export function WorldMap({
       }
     }
 
+    const dt = event.timeStamp - pan.lastTime
+    if (dt > 0) {
+      pan.vx = 0.8 * ((event.clientX - pan.lastClientX) / dt) + 0.2 * pan.vx
+      pan.vy = 0.8 * ((event.clientY - pan.lastClientY) / dt) + 0.2 * pan.vy
+    }
+    pan.lastClientX = event.clientX
+    pan.lastClientY = event.clientY
+    pan.lastTime = event.timeStamp
+
     setCamera((prev) => clampCamera({ ...prev, tx: pan.startTx + dx, ty: pan.startTy + dy }))
   }
 
@@ -617,20 +1706,186 @@ export function WorldMap({
     } catch {
       // ignore
     }
-    if (pan?.started) lastPanEndedTimeStampRef.current = event.timeStamp
+    const wasTracked = activePointersRef.current.delete(event.pointerId)
+
+    if (pinchRef.current) {
+      if (!wasTracked) return
+      lastPanEndedTimeStampRef.current = event.timeStamp
+      if (activePointersRef.current.size >= 2) {
+        startPinch()
+        return
+      }
+      pinchRef.current = null
+      // the finger left on the glass carries on panning from where it is
+      const [rest] = [...activePointersRef.current.entries()]
+      if (rest) startPan(rest[0], rest[1].x, rest[1].y, event.timeStamp, true)
+      else setIsPanning(false)
+      return
+    }
+
+    if (pan && pan.pointerId !== event.pointerId) return
+    if (pan?.started) {
+      lastPanEndedTimeStampRef.current = event.timeStamp
+      if (event.type === "pointerup" && event.timeStamp - pan.lastTime <= INERTIA_MAX_IDLE_MS) {
+        if (Math.hypot(pan.vx, pan.vy) >= INERTIA_MIN_SPEED) startInertia(pan.vx, pan.vy)
+      }
+    } else if (pan && event.pointerType === "touch" && event.type === "pointerup") {
+      onViewportTap(event)
+    }
     panCandidateRef.current = null
     setIsPanning(false)
   }
 
+  // Double-tap zooms in on touch screens, unless taps are placing something.
+  const onViewportTap = (event: PointerEvent<HTMLDivElement>) => {
+    const placing = measureMode || (canEdit && (createMode || drawMode))
+    const last = lastTapRef.current
+    const isDoubleTap =
+      last &&
+      event.timeStamp - last.time <= DOUBLE_TAP_MS &&
+      Math.hypot(event.clientX - last.x, event.clientY - last.y) <= DOUBLE_TAP_SLOP_PX
+    if (!isDoubleTap || placing) {
+      lastTapRef.current = { time: event.timeStamp, x: event.clientX, y: event.clientY }
+      return
+    }
+    lastTapRef.current = null
+    zoomAt(cameraRef.current.scale * DOUBLE_TAP_ZOOM, event.clientX, event.clientY)
+  }
+
   const onViewportClick = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!canEdit || !createMode) return
+    if (measureMode) {
+      if (event.timeStamp - lastPanEndedTimeStampRef.current < 150) return
+      const point = clientToNormalized(event.clientX, event.clientY)
+      if (point) addRulerPoint(point)
+      return
+    }
+    if (!canEdit || !(createMode || drawMode)) return
     if (event.timeStamp - lastPanEndedTimeStampRef.current < 150) return
+    if (drawMode) {
+      const point = clientToNormalized(event.clientX, event.clientY)
+      if (point) setDraftPoints((prev) => [...prev, point])
+      return
+    }
     const next = clientToNormalized(event.clientX, event.clientY)
     if (!next) return
     createPinAt(next.x, next.y)
     setCreateMode(false)
   }
 
+  // Enter on a focused pin: select it, and outside edit mode open its linked entry.
+  const onPinActivate = (pin: WorldMapPin) => {
+    if (measureMode) {
+      addRulerPoint({ x: pin.x, y: pin.y })
+      return
+    }
+    setSelectedId(pin.id)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
+    if (isEditing) {
+      setCreateMode(false)
+      return
+    }
+    if (pin.mdxCategory && pin.mdxSlug) openEntryPrompt(pin.mdxCategory, pin.mdxSlug)
+  }
+
+  const nudgeSelectedPin = (dxPx: number, dyPx: number) => {
+    const pin = pinsRef.current.find((p) => p.id === selectedId)
+    if (!pin) return
+    const { scale } = cameraRef.current
+    const next = { x: clamp01(pin.x + dxPx / (imgSize.w * scale)), y: clamp01(pin.y + dyPx / (imgSize.h * scale)) }
+    const index = pinsRef.current.indexOf(pin)
+    const moved = { ...pin, ...next }
+    const nextPins = pinsRef.current.map((p, i) => (i === index ? moved : p))
+    pinsRef.current = nextPins
+    setPins(nextPins)
+    recordPinChange("move", pin.id, pin, moved, index)
+    if (nudgeSaveTimerRef.current) window.clearTimeout(nudgeSaveTimerRef.current)
+    nudgeSaveTimerRef.current = window.setTimeout(() => {
+      nudgeSaveTimerRef.current = null
+      void savePins(pinsRef.current)
+    }, NUDGE_SAVE_DELAY_MS)
+    // re-sorting pins into reading order can move the button; keep focus on it
+    window.requestAnimationFrame(() => {
+      const button = containerRef.current?.querySelector<HTMLElement>(`[data-pin-id="${CSS.escape(pin.id)}"]`)
+      if (button && document.activeElement !== button) button.focus()
+    })
+  }
+
+  const zoomAtCenter = (factor: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return
+    cancelFlyTo()
+    zoomAt(clamp(cameraRef.current.scale * factor, MIN_ZOOM, maxZoom), rect.left + rect.width / 2, rect.top + rect.height / 2)
+  }
+
+  // Arrow keys and +/-; returns whether the key was used.
+  const onNavigationKey = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return false
+    const arrow = ARROW_KEYS[event.key]
+    if (arrow) {
+      event.preventDefault()
+      const fast = event.shiftKey ? KEY_FAST_FACTOR : 1
+      const focusedPinId = (event.target as HTMLElement).closest<HTMLElement>("[data-pin-id]")?.dataset.pinId
+      if (canEdit && selectedId && focusedPinId === selectedId) {
+        nudgeSelectedPin(arrow.dx * KEY_NUDGE_STEP_PX * fast, arrow.dy * KEY_NUDGE_STEP_PX * fast)
+        return true
+      }
+      cancelFlyTo()
+      const step = KEY_PAN_STEP_PX * fast
+      setCamera((prev) => clampCamera({ ...prev, tx: prev.tx - arrow.dx * step, ty: prev.ty - arrow.dy * step }))
+      return true
+    }
+    if (event.key === "+" || event.key === "=") {
+      event.preventDefault()
+      zoomAtCenter(KEY_ZOOM_STEP)
+      return true
+    }
+    if (event.key === "-" || event.key === "_") {
+      event.preventDefault()
+      zoomAtCenter(1 / KEY_ZOOM_STEP)
+      return true
+    }
+    return false
+  }
+
+  // Escape outside the ruler and region drawing: close whatever panel is open.
+  const closePanels = () => {
+    if (listOpen) {
+      setListOpen(false)
+      return
+    }
+    setCreateMode(false)
+    setSelectedId(null)
+    setSelectedRegionId(null)
+    setSelectedRouteId(null)
+  }
+
+  const onViewportKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (onNavigationKey(event)) return
+    if (measureMode) {
+      if (event.key === "Escape") {
+        toggleMeasureMode()
+      } else if (event.key === "Backspace") {
+        event.preventDefault()
+        setRulerPoints((prev) => prev.slice(0, -1))
+      }
+      return
+    }
+    if (!drawMode) {
+      if (event.key === "Escape") closePanels()
+      return
+    }
+    if (event.key === "Enter") {
+      event.preventDefault()
+      finishDraft()
+    } else if (event.key === "Escape") {
+      cancelDraft()
+    } else if (event.key === "Backspace") {
+      event.preventDefault()
+      setDraftPoints((prev) => prev.slice(0, -1))
+    }
+  }
+
   return (
     <main className="h-[100svh] p-4 sm:p-6">
       <div className="mx-auto flex h-full max-w-[1700px] flex-col gap-4">
@@ -639,7 +1894,7 @@ export function WorldMap({
             <p className="text-xs uppercase tracking-[0.25em] text-white/60">Atlas</p>
             <h1 className="mt-2 text-2xl md:text-3xl font-semibold">World Map</h1>
             <p className="mt-2 text-sm text-white/60">
-              Drag to pan • Wheel to zoom • Click a pin to select
+              Drag to pan • Wheel to zoom • Click a pin to select • Focus the map for arrow keys, +/− and Tab
             </p>
           </div>
 
@@ -651,6 +1906,35 @@ export function WorldMap({
             >
               Reset view
             </button>
+            <button
+              type="button"
+              className={[
+                "rounded-full border px-4 py-2 transition",
+                measureMode ? "border-white/40 bg-white/15 text-white" : "border-white/15 bg-white/5 hover:bg-white/10",
+              ].join(" ")}
+              onClick={toggleMeasureMode}
+              aria-pressed={measureMode}
+            >
+              Ruler
+            </button>
+            <button
+              type="button"
+              className={[
+                "rounded-full border px-4 py-2 transition",
+                listOpen ? "border-white/40 bg-white/15 text-white" : "border-white/15 bg-white/5 hover:bg-white/10",
+              ].join(" ")}
+              onClick={() => setListOpen((v) => !v)}
+              aria-pressed={listOpen}
+            >
+              Pin list
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-4 py-2 hover:bg-white/10 transition"
+              onClick={() => void copyViewLink()}
+            >
+              {linkCopied ? "Link copied" : "Copy link to this view"}
+            </button>
 
             <div className="inline-flex overflow-hidden rounded-full border border-white/15 bg-white/5">
               { /* Map layer buttons */ }
@@ -662,7 +1946,15 @@ export function WorldMap({
                     "px-3 py-2 text-sm transition",
                     m.id === activeMapId ? "bg-white/15 text-white" : "text-white/75 hover:bg-white/10",
                   ].join(" ")}
-                  onClick={() => setActiveMapId(m.id)}
+                  onClick={() => {
+                    pendingViewRef.current = null
+                    setActiveMapId(m.id)
+                    if (compareMapId === m.id) setCompareMapId(null)
+                    if (selectedPin && !pinOnMap(selectedPin, m.id)) setSelectedId(null)
+                    if (selectedRegion && !pinOnMap(selectedRegion, m.id)) setSelectedRegionId(null)
+                    if (selectedRoute && !pinOnMap(selectedRoute, m.id)) setSelectedRouteId(null)
+                    setDraftPoints([])
+                  }}
                   aria-pressed={m.id === activeMapId}
                 >
                   {m.label}
@@ -671,6 +1963,46 @@ export function WorldMap({
             </div>
             {isAdmin ? (
               <>
+                {isEditing ? (
+                  <div className="inline-flex items-center gap-2">
+                    <div className="inline-flex overflow-hidden rounded-full border border-white/15 bg-white/5">
+                      <button
+                        type="button"
+                        className="px-3 py-2 text-sm text-white/75 hover:bg-white/10 transition disabled:opacity-40"
+                        onClick={() => stepPinHistory("undo")}
+                        disabled={!pinHistory.past.length}
+                        title={
+                          pinHistory.past.length
+                            ? `Undo ${describePinCommand(pinHistory.past[pinHistory.past.length - 1])} (Ctrl+Z)`
+                            : "Nothing to undo"
+                        }
+                      >
+                        Undo
+                      </button>
+                      <button
+                        type="button"
+                        className="border-l border-white/10 px-3 py-2 text-sm text-white/75 hover:bg-white/10 transition disabled:opacity-40"
+                        onClick={() => stepPinHistory("redo")}
+                        disabled={!pinHistory.future.length}
+                        title={
+                          pinHistory.future.length
+                            ? `Redo ${describePinCommand(pinHistory.future[0])} (Ctrl+Shift+Z)`
+                            : "Nothing to redo"
+                        }
+                      >
+                        Redo
+                      </button>
+                    </div>
+                    {unsavedCount > 0 ? (
+                      <span
+                        className="rounded-full border border-amber-400/30 bg-amber-500/10 px-3 py-1.5 text-xs text-amber-100"
+                        role="status"
+                      >
+                        {unsavedCount} unsaved {unsavedCount === 1 ? "change" : "changes"}
+                      </span>
+                    ) : null}
+                  </div>
+                ) : null}
                 <button
                   type="button"
                   className="rounded-full border border-white/15 bg-white/5 px-4 py-2 hover:bg-white/10 transition"
@@ -699,6 +2031,8 @@ export function WorldMap({
           </div>
         </header>
 
+        <PinLegend counts={kindCounts} hiddenKinds={hiddenKinds} onToggleKind={toggleKind} />
+
         <section className="relative flex-1 rounded-[28px] border border-white/10 bg-white/5 p-3 shadow-sm">
           <MapViewport
             containerRef={containerRef}
@@ -706,30 +2040,148 @@ export function WorldMap({
             imgSize={imgSize}
             mapSrc={activeMap.src}
             mapLabel={activeMap.label}
+            tiles={activeTiles}
+            viewport={viewportSize}
+            compare={compareLayer}
             isPanning={isPanning}
             canEdit={canEdit}
-            createMode={createMode}
+            createMode={createMode || drawMode || measureMode}
             onWheel={onWheel}
             onPointerDown={onViewportPointerDown}
             onPointerMove={onViewportPointerMove}
             onPointerUp={onViewportPointerUp}
             onClick={onViewportClick}
+            onKeyDown={onViewportKeyDown}
             onImageLoad={handleImageLoad}
           >
+            <RegionsOverlay
+              regions={mapRegions}
+              selectedId={selectedRegionId}
+              camera={camera}
+              imgSize={imgSize}
+              drawing={measureMode || (canEdit && (createMode || drawMode))}
+              editable={canEdit && !drawMode && !measureMode}
+              draftPoints={draftPoints}
+              onRegionClick={onRegionClick}
+              onVertexPointerDown={onVertexPointerDown}
+              onVertexPointerMove={onVertexPointerMove}
+              onVertexPointerUp={onVertexPointerUp}
+              onVertexDoubleClick={onVertexDoubleClick}
+              onMidpointPointerDown={onMidpointPointerDown}
+              onDraftClose={finishDraft}
+            />
+            <RoutesOverlay
+              routes={mapRoutes}
+              selectedId={selectedRouteId}
+              camera={camera}
+              imgSize={imgSize}
+              mapScale={mapScale}
+              measuring={measureMode || (canEdit && (createMode || drawMode))}
+              rulerPoints={rulerPoints}
+              onRouteClick={onRouteClick}
+            />
             <PinsOverlay
-              pins={pins}
+              pins={visiblePins}
               selectedId={selectedId}
               camera={camera}
               imgSize={imgSize}
               isEditing={isEditing}
               draggingId={draggingId}
+              // at full zoom there is nothing left to zoom into
+              clustering={camera.scale < maxZoom}
+              viewport={viewportSize}
+              onClusterClick={zoomToCluster}
               onPinPointerDown={onPinPointerDown}
               onPinPointerMove={onPinPointerMove}
               onPinPointerUp={onPinPointerUp}
               onPinClick={onPinClick}
+              onPinActivate={onPinActivate}
             />
+            {compareLayer?.mode === "swipe" ? (
+              <SwipeDivider
+                position={swipePosition}
+                leftLabel={activeMap.label}
+                rightLabel={compareLayer.label}
+                onChange={setSwipePosition}
+              />
+            ) : null}
           </MapViewport>
 
+          <ScaleBar scale={mapScale} cameraScale={camera.scale} />
+
+          <Minimap
+            src={activeTiles ? previewUrl(activeTiles) : activeMap.src}
+            label={activeMap.label}
+            imgSize={imgSize}
+            camera={camera}
+            viewport={viewportSize}
+            pins={visiblePins}
+            besidePanel={panelOpen || Boolean(selectedRegion)}
+            onCenterOn={centerOn}
+          />
+
+          {maps.length > 1 ? (
+            <div className="pointer-events-none absolute inset-x-0 bottom-6 z-30 flex justify-center">
+              <div className="pointer-events-auto">
+                <CompareControls
+                  maps={maps}
+                  activeMapId={activeMapId}
+                  compareMapId={compareLayer ? compareMapId : null}
+                  mode={compareMode}
+                  opacity={compareOpacity}
+                  onCompareMapChange={setCompareMapId}
+                  onModeChange={setCompareMode}
+                  onOpacityChange={setCompareOpacity}
+                />
+              </div>
+            </div>
+          ) : null}
+
+          {measureMode || selectedRoute ? (
+            <TravelPanel
+              route={measureMode ? null : selectedRoute}
+              rulerPoints={rulerPoints}
+              imgSize={imgSize}
+              mapScale={mapScale}
+              canEdit={canEdit}
+              saveState={saveState}
+              onClose={() => {
+                setMeasureMode(false)
+                setRulerPoints([])
+                setSelectedRouteId(null)
+              }}
+              onUndoPoint={() => setRulerPoints((prev) => prev.slice(0, -1))}
+              onSaveAsRoute={saveRulerAsRoute}
+              onSetRoute={setRoute}
+              onSaveRoute={() => void saveRoutes()}
+              onRequestDelete={requestDeleteSelected}
+            />
+          ) : null}
+
+          {listOpen ? (
+            <PinListView
+              mapLabel={activeMap.label}
+              pins={mapPins}
+              selectedId={selectedId}
+              entryTitleByKey={entryTitleByKey}
+              onChoose={choosePinFromSearch}
+              onClose={() => setListOpen(false)}
+            />
+          ) : null}
+
+          <div className="sr-only" aria-live="polite" aria-atomic="true">
+            {selectedPin
+              ? `Selected ${selectedPin.title}, ${getPinKind(selectedPin.kind).label}${selectedPin.subtitle ? `. ${selectedPin.subtitle}` : ""}`
+              : ""}
+          </div>
+          <div className="sr-only" aria-live="polite" aria-atomic="true">
+            {zoomAnnouncement}
+          </div>
+
+          <div className="absolute left-20 top-6 z-40">
+            <PinSearch pins={mapPins} entryTitleByKey={entryTitleByKey} onChoose={choosePinFromSearch} />
+          </div>
+
           <div className="absolute left-6 top-6 z-30 flex flex-col gap-2">
             <button
               type="button"
@@ -737,7 +2189,7 @@ export function WorldMap({
               onClick={() => {
                 const rect = containerRef.current?.getBoundingClientRect()
                 if (!rect) return
-                zoomAt(clamp(camera.scale * 1.25, MIN_ZOOM, MAX_ZOOM), rect.left + rect.width / 2, rect.top + rect.height / 2)
+                zoomAt(clamp(camera.scale * 1.25, MIN_ZOOM, maxZoom), rect.left + rect.width / 2, rect.top + rect.height / 2)
               }}
               aria-label="Zoom in"
             >
@@ -749,7 +2201,7 @@ export function WorldMap({
               onClick={() => {
                 const rect = containerRef.current?.getBoundingClientRect()
                 if (!rect) return
-                zoomAt(clamp(camera.scale / 1.25, MIN_ZOOM, MAX_ZOOM), rect.left + rect.width / 2, rect.top + rect.height / 2)
+                zoomAt(clamp(camera.scale / 1.25, MIN_ZOOM, maxZoom), rect.left + rect.width / 2, rect.top + rect.height / 2)
               }}
               aria-label="Zoom out"
             >
@@ -765,6 +2217,16 @@ export function WorldMap({
             </div>
           ) : null}
 
+          {isAdmin && isEditing && drawMode ? (
+            <div className="pointer-events-none absolute inset-x-0 top-6 z-30 flex justify-center">
+              <div className="rounded-full border border-white/15 bg-black/55 px-4 py-2 text-xs text-white/80 shadow-sm backdrop-blur">
+                {draftPoints.length < 3
+                  ? "Click on the map to add region points"
+                  : "Enter or click the first point to finish • Backspace removes a point • Esc cancels"}
+              </div>
+            </div>
+          ) : null}
+
           {(saveState === "saving" || saveState === "saved" || saveState === "error") ? (
             <div className="pointer-events-none absolute right-6 top-6 z-30">
               <div
@@ -798,15 +2260,58 @@ export function WorldMap({
             isEditing={isEditing}
             canEdit={canEdit}
             createMode={createMode}
+            drawMode={drawMode}
             saveState={saveState}
             cameraScale={camera.scale}
             selectedPin={selectedPin}
             categories={categories}
             slugsForCategory={slugsForCategory}
-            onToggleCreateMode={() => setCreateMode((prev) => !prev)}
+            maps={maps}
+            onToggleCreateMode={() => {
+              setCreateMode((prev) => !prev)
+              cancelDraft()
+            }}
+            onToggleDrawMode={toggleDrawMode}
             onRequestDelete={requestDeleteSelected}
             onSave={() => void savePins()}
-            onSetPin={setPin}
+            onOpenImport={() =>
+              setPinImport({
+                fileName: null,
+                format: "geojson",
+                content: "",
+                mode: "merge",
+                preview: null,
+                revision: pinsRevisionRef.current,
+                busy: false,
+                error: null,
+              })
+            }
+            onSetPin={editPin}
+            message={message}
+            error={error}
+          />
+
+          <RegionEditorPanel
+            region={selectedRegion}
+            canEdit={canEdit}
+            saveState={saveState}
+            categories={categories}
+            slugsForCategory={slugsForCategory}
+            entryTitle={
+              selectedRegion?.mdxCategory && selectedRegion.mdxSlug
+                ? (entryTitleByKey.get(`${selectedRegion.mdxCategory}/${selectedRegion.mdxSlug}`) ?? null)
+                : null
+            }
+            maps={maps}
+            onSetRegion={setRegion}
+            onRequestDelete={requestDeleteSelected}
+            onSave={() => void saveRegions()}
+            onClose={() => setSelectedRegionId(null)}
+            onOpenEntry={() => {
+              if (selectedRegion?.mdxCategory && selectedRegion.mdxSlug) {
+                openEntryPrompt(selectedRegion.mdxCategory, selectedRegion.mdxSlug)
+              }
+            }}
             message={message}
             error={error}
           />
@@ -814,12 +2319,39 @@ export function WorldMap({
       </div>
 
       <DeletePinModal
-        open={Boolean(confirmDeleteOpen && selectedPin)}
-        pinTitle={selectedPin?.title ?? ""}
+        open={Boolean(confirmDeleteOpen && (selectedPin || selectedRegion || selectedRoute))}
+        pinTitle={selectedRoute?.title ?? selectedRegion?.title ?? selectedPin?.title ?? ""}
+        itemLabel={selectedRoute ? "route" : selectedRegion ? "region" : "pin"}
         onCancel={() => setConfirmDeleteOpen(false)}
         onConfirm={confirmDeleteSelected}
       />
 
+      <PinMergeModal
+        open={Boolean(mergePrompt)}
+        pinTitles={mergePrompt?.conflictTitles ?? []}
+        onCancel={() => setMergePrompt(null)}
+        onKeepMine={() => resolveMerge("mine")}
+        onKeepTheirs={() => resolveMerge("theirs")}
+      />
+
+      <PinImportModal
+        open={Boolean(pinImport)}
+        fileName={pinImport?.fileName ?? null}
+        mode={pinImport?.mode ?? "merge"}
+        preview={pinImport?.preview ?? null}
+        busy={pinImport?.busy ?? false}
+        error={pinImport?.error ?? null}
+        unsavedCount={unsavedCount}
+        onChooseFile={(file) => void choosePinImportFile(file)}
+        onModeChange={(mode) => {
+          if (!pinImport) return
+          if (pinImport.content) void previewPinImport({ ...pinImport, mode })
+          else setPinImport({ ...pinImport, mode })
+        }}
+        onCancel={() => setPinImport(null)}
+        onImport={() => void applyPinImport()}
+      />
+
       <NavigateModal
         open={Boolean(navPrompt)}
         title={navPrompt?.title ?? ""}
@@ -832,6 +2364,7 @@ export function WorldMap({
         }}
         onConfirm={() => {
           if (!navPrompt) return
+          if (unsavedCount > 0 && !window.confirm(unsavedChangesPrompt(unsavedCount))) return
           setNavLoading(true)
           if (navTimeoutRef.current) window.clearTimeout(navTimeoutRef.current)
           navTimeoutRef.current = window.setTimeout(() => {
@@ -0,0 +1,82 @@
+"use client"
+
+import type { MapInfo } from "@/lib/maps"
+
+export type CompareMode = "opacity" | "swipe"
+
+type CompareControlsProps = {
+  maps: readonly MapInfo[]
+  activeMapId: string
+  compareMapId: string | null
+  mode: CompareMode
+  opacity: number
+  onCompareMapChange: (mapId: string | null) => void
+  onModeChange: (mode: CompareMode) => void
+  onOpacityChange: (opacity: number) => void
+}
+
+export function CompareControls({
+  maps,
+  activeMapId,
+  compareMapId,
+  mode,
+  opacity,
+  onCompareMapChange,
+  onModeChange,
+  onOpacityChange,
+}: CompareControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-full border border-white/15 bg-black/55 px-3 py-1.5 text-xs text-white/80 shadow-sm backdrop-blur">
+      <label className="inline-flex items-center gap-2">
+        Compare with
+        <select
+          className="rounded-full border border-white/10 bg-black/30 px-2 py-1 text-xs text-white outline-none focus:border-white/25"
+          value={compareMapId ?? ""}
+          onChange={(e) => onCompareMapChange(e.target.value || null)}
+        >
+          <option value="">(none)</option>
+          {maps
+            .filter((m) => m.id !== activeMapId)
+            .map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+        </select>
+      </label>
+
+      {compareMapId ? (
+        <>
+          <div className="inline-flex overflow-hidden rounded-full border border-white/15 bg-white/5">
+            {(["opacity", "swipe"] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                className={[
+                  "px-3 py-1 capitalize transition",
+                  m === mode ? "bg-white/15 text-white" : "text-white/75 hover:bg-white/10",
+                ].join(" ")}
+                onClick={() => onModeChange(m)}
+                aria-pressed={m === mode}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          {mode === "opacity" ? (
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => onOpacityChange(Number(e.target.value))}
+              aria-label="Compare layer opacity"
+              className="w-28"
+            />
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  )
+}
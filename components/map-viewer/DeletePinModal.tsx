@@ -3,17 +3,18 @@
 type DeletePinModalProps = {
   open: boolean
   pinTitle: string
+  itemLabel?: string // "pin" by default; the modal is shared with regions
   onCancel: () => void
   onConfirm: () => void
 }
 
-export function DeletePinModal({ open, pinTitle, onCancel, onConfirm }: DeletePinModalProps) {
+export function DeletePinModal({ open, pinTitle, itemLabel = "pin", onCancel, onConfirm }: DeletePinModalProps) {
   if (!open) return null
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6">
       <div className="w-full max-w-md rounded-3xl border border-white/10 bg-black/60 p-5 shadow-xl backdrop-blur">
-        <h3 className="text-lg font-semibold">Delete pin?</h3>
+        <h3 className="text-lg font-semibold">Delete {itemLabel}?</h3>
         <p className="mt-2 text-sm text-white/70">
           This will permanently remove <span className="font-medium text-white">{pinTitle}</span> from the map.
         </p>
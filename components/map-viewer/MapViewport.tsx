@@ -1,8 +1,9 @@
 "use client"
 
 
-import type { MouseEvent, PointerEvent, ReactNode, RefObject, WheelEvent } from "react"
+import type { KeyboardEvent, MouseEvent, PointerEvent, ReactNode, RefObject, WheelEvent } from "react"
 import Image from "next/image"
+import { levelForScale, previewUrl, visibleTiles, type TileManifest } from "@/lib/tilePyramid"
 
 const DEBUG = process.env.NODE_ENV !== "production"
 
@@ -17,12 +18,25 @@ export type ImgSize = {
   h: number
 }
 
+// A second map layer drawn over the active one, with the same camera.
+export type MapCompareLayer = {
+  src: string
+  label: string
+  tiles?: TileManifest | null
+  mode: "opacity" | "swipe"
+  opacity: number // 0..1, opacity mode
+  swipe: number // 0..1 of the viewport width; the compare layer shows right of it
+}
+
 type MapViewportProps = {
   containerRef: RefObject<HTMLDivElement | null>
   camera: Camera
   imgSize: ImgSize
   mapSrc: string
   mapLabel: string
+  tiles?: TileManifest | null // deep-zoom pyramid for this map, see scripts/build-map-tiles.ts
+  viewport: { width: number; height: number }
+  compare?: MapCompareLayer | null
   isPanning: boolean
   canEdit: boolean
   createMode: boolean
@@ -31,6 +45,7 @@ type MapViewportProps = {
   onPointerMove: (event: PointerEvent<HTMLDivElement>) => void
   onPointerUp: (event: PointerEvent<HTMLDivElement>) => void
   onClick: (event: MouseEvent<HTMLDivElement>) => void
+  onKeyDown?: (event: KeyboardEvent<HTMLDivElement>) => void
   onImageLoad: (size: ImgSize) => void
   children?: ReactNode
 }
@@ -41,6 +56,9 @@ export function MapViewport({
   imgSize,
   mapSrc,
   mapLabel,
+  tiles,
+  viewport,
+  compare,
   isPanning,
   canEdit,
   createMode,
@@ -49,13 +67,25 @@ export function MapViewport({
   onPointerMove,
   onPointerUp,
   onClick,
+  onKeyDown,
   onImageLoad,
   children,
 }: MapViewportProps) {
+  const layerStyle = {
+    width: imgSize.w,
+    height: imgSize.h,
+    transformOrigin: "0 0", // critical fix 12/25/2025
+    transform: `matrix(${camera.scale}, 0, 0, ${camera.scale}, ${camera.tx}, ${camera.ty})`,
+  }
+
   return (
     <div
       ref={containerRef}
       tabIndex={0}
+      role="group"
+      aria-roledescription="map"
+      aria-label={`${mapLabel} map`}
+      aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight + - Escape"
       className={[
         "relative h-full w-full overflow-hidden rounded-2xl border border-white/10 bg-black/40 outline-none",
         isPanning ? "cursor-grabbing" : createMode && canEdit ? "cursor-crosshair" : "cursor-grab",
@@ -67,18 +97,11 @@ export function MapViewport({
       onPointerUp={onPointerUp}
       onPointerCancel={onPointerUp}
       onClick={onClick}
+      onKeyDown={onKeyDown}
     >
-      <div
-        className="absolute left-0 top-0 will-change-transform"
-        style={{
-          width: imgSize.w,
-          height: imgSize.h,
-          transformOrigin: "0 0", // critical fix 12/25/2025
-          transform: `matrix(${camera.scale}, 0, 0, ${camera.scale}, ${camera.tx}, ${camera.ty})`,
-        }}
-      >
+      <div className="absolute left-0 top-0 will-change-transform" style={layerStyle}>
         <Image
-          src={mapSrc}
+          src={tiles ? previewUrl(tiles) : mapSrc}
           alt="Map"
           width={imgSize.w}
           height={imgSize.h}
@@ -95,6 +118,8 @@ export function MapViewport({
           }
         />
 
+        {tiles ? <MapTiles tiles={tiles} camera={camera} viewport={viewport} /> : null}
+
         {/* DEBUG: red dot at center of the map in map-pixel space */}
         { DEBUG &&
         <div
@@ -115,9 +140,104 @@ export function MapViewport({
 
       </div>
 
+      {/* compare layer: same camera and size as the active map, so pins stay aligned */}
+      {compare ? (
+        <div
+          className="pointer-events-none absolute inset-0"
+          style={
+            compare.mode === "swipe"
+              ? { clipPath: `inset(0 0 0 ${compare.swipe * 100}%)` }
+              : { opacity: compare.opacity }
+          }
+        >
+          <div className="absolute left-0 top-0 will-change-transform" style={layerStyle}>
+            <Image
+              src={compare.tiles ? previewUrl(compare.tiles) : compare.src}
+              alt={`${compare.label} (compare)`}
+              width={imgSize.w}
+              height={imgSize.h}
+              style={{ width: "100%", height: "100%" }}
+              className="select-none pointer-events-none"
+              draggable={false}
+              unoptimized
+            />
+            {compare.tiles ? <CompareTiles tiles={compare.tiles} camera={camera} imgSize={imgSize} viewport={viewport} /> : null}
+          </div>
+        </div>
+      ) : null}
+
       {children}
 
       <div className="pointer-events-none absolute inset-0 bg-gradient-to-b from-black/20 via-transparent to-black/50" />
     </div>
   )
 }
+
+/**
+ * The tiles of a map's pyramid that are on screen, placed in the layer's
+ * base-level pixels. Tiles only help once the zoom needs more detail than the
+ * preview has; until then (and while they load) the preview is what shows.
+ */
+function MapTiles({
+  tiles,
+  camera,
+  viewport,
+}: {
+  tiles: TileManifest
+  camera: Camera
+  viewport: { width: number; height: number }
+}) {
+  const pixelRatio = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1
+  const level = levelForScale(tiles, camera.scale, pixelRatio)
+  if (level <= tiles.baseLevel || viewport.width <= 0) return null
+  // overlap neighbours by half a screen pixel so seams don't show between tiles
+  const seam = 0.5 / camera.scale
+
+  return (
+    <>
+      {visibleTiles(tiles, level, camera, viewport).map((tile) => (
+        <Image
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          width={Math.round(tile.w)}
+          height={Math.round(tile.h)}
+          loading="eager"
+          unoptimized
+          draggable={false}
+          className="pointer-events-none absolute select-none"
+          style={{ left: tile.x, top: tile.y, width: tile.w + seam, height: tile.h + seam, maxWidth: "none" }}
+        />
+      ))}
+    </>
+  )
+}
+
+/**
+ * A compare map's tiles, whose base level may differ in size from the active
+ * map's: the tiles are laid out in the compare map's base pixels and scaled
+ * onto the active layer.
+ */
+function CompareTiles({
+  tiles,
+  camera,
+  imgSize,
+  viewport,
+}: {
+  tiles: TileManifest
+  camera: Camera
+  imgSize: ImgSize
+  viewport: { width: number; height: number }
+}) {
+  const k = imgSize.w / tiles.baseWidth
+  if (!Number.isFinite(k) || k <= 0) return null
+
+  return (
+    <div
+      className="pointer-events-none absolute left-0 top-0"
+      style={{ width: tiles.baseWidth, height: tiles.baseHeight, transformOrigin: "0 0", transform: `scale(${k})` }}
+    >
+      <MapTiles tiles={tiles} camera={{ ...camera, scale: camera.scale * k }} viewport={viewport} />
+    </div>
+  )
+}
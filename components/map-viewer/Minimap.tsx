@@ -0,0 +1,151 @@
+"use client"
+
+import { useRef, useState, type PointerEvent } from "react"
+import Image from "next/image"
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { getPinKind } from "@/lib/pinKinds"
+import type { Camera, ImgSize } from "@/components/map-viewer/MapViewport"
+
+type MinimapProps = {
+  src: string
+  label: string
+  imgSize: ImgSize
+  camera: Camera
+  viewport: { width: number; height: number }
+  pins: WorldMapPin[]
+  besidePanel?: boolean // moves left of the editor panels, which take the right edge
+  // centers the main camera on a normalized map point; the caller clamps it
+  onCenterOn: (x: number, y: number) => void
+}
+
+const MINIMAP_WIDTH = 200
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+export function Minimap({ src, label, imgSize, camera, viewport, pins, besidePanel = false, onCenterOn }: MinimapProps) {
+  const [open, setOpen] = useState(true)
+  // offset from the grab point to the viewport rectangle's center, normalized
+  const dragRef = useRef<{ pointerId: number; dx: number; dy: number } | null>(null)
+
+  if (imgSize.w <= 0 || imgSize.h <= 0) return null
+  const height = Math.round((MINIMAP_WIDTH * imgSize.h) / imgSize.w)
+
+  // the part of the map the main viewport shows, in normalized coordinates
+  const view = {
+    x: -camera.tx / (imgSize.w * camera.scale),
+    y: -camera.ty / (imgSize.h * camera.scale),
+    w: viewport.width / (imgSize.w * camera.scale),
+    h: viewport.height / (imgSize.h * camera.scale),
+  }
+  const rect = {
+    left: clamp01(view.x),
+    top: clamp01(view.y),
+    right: clamp01(view.x + view.w),
+    bottom: clamp01(view.y + view.h),
+  }
+
+  const toNormalized = (event: PointerEvent<HTMLDivElement>) => {
+    const box = event.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp01((event.clientX - box.left) / box.width),
+      y: clamp01((event.clientY - box.top) / box.height),
+    }
+  }
+
+  const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    event.preventDefault()
+    const p = toNormalized(event)
+    const inside = p.x >= rect.left && p.x <= rect.right && p.y >= rect.top && p.y <= rect.bottom
+    // grabbing the rectangle keeps it under the pointer; anywhere else jumps there first
+    const cx = view.x + view.w / 2
+    const cy = view.y + view.h / 2
+    dragRef.current = { pointerId: event.pointerId, dx: inside ? cx - p.x : 0, dy: inside ? cy - p.y : 0 }
+    if (!inside) onCenterOn(p.x, p.y)
+    try {
+      event.currentTarget.setPointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+  }
+
+  const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+    const p = toNormalized(event)
+    onCenterOn(p.x + drag.dx, p.y + drag.dy)
+  }
+
+  const onPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId !== event.pointerId) return
+    dragRef.current = null
+    try {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+  }
+
+  return (
+    <div
+      className={[
+        "absolute bottom-6 z-30 overflow-hidden rounded-2xl border border-white/10 bg-black/55 shadow-xl backdrop-blur",
+        besidePanel ? "right-[calc(min(420px,90vw)+3rem)]" : "right-6",
+      ].join(" ")}
+    >
+      <button
+        type="button"
+        className="flex w-full items-center justify-between gap-3 px-3 py-1.5 text-[11px] text-white/75 hover:bg-white/10 transition"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+      >
+        <span>Overview</span>
+        <span aria-hidden>{open ? "▾" : "▸"}</span>
+      </button>
+
+      {open ? (
+        <div
+          className="relative cursor-pointer touch-none select-none border-t border-white/10"
+          style={{ width: MINIMAP_WIDTH, height }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          aria-label={`${label} overview`}
+        >
+          <Image
+            src={src}
+            alt=""
+            width={MINIMAP_WIDTH}
+            height={height}
+            unoptimized
+            draggable={false}
+            className="pointer-events-none h-full w-full select-none"
+          />
+
+          {pins.map((pin) => (
+            <span
+              key={pin.id}
+              className="pointer-events-none absolute h-1.5 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-full ring-1 ring-black/50"
+              style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%`, background: getPinKind(pin.kind).color }}
+            />
+          ))}
+
+          {rect.right > rect.left && rect.bottom > rect.top ? (
+            <div
+              className="pointer-events-none absolute border-2 border-white/90 bg-white/10 shadow"
+              style={{
+                left: `${rect.left * 100}%`,
+                top: `${rect.top * 100}%`,
+                width: `${(rect.right - rect.left) * 100}%`,
+                height: `${(rect.bottom - rect.top) * 100}%`,
+              }}
+            />
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 "use client"
 
 import type { WorldMapPin } from "@/lib/worldMapPins"
+import type { MapInfo } from "@/lib/maps"
+import { DEFAULT_PIN_KIND, PIN_KINDS } from "@/lib/pinKinds"
+import { MarkdownRender } from "@/components/MarkdownRender"
 
 type SaveState = "idle" | "saving" | "saved" | "error"
 
@@ -10,14 +13,18 @@ type PinEditorPanelProps = {
   isEditing: boolean
   canEdit: boolean
   createMode: boolean
+  drawMode: boolean
   saveState: SaveState
   cameraScale: number
   selectedPin: WorldMapPin | null
   categories: string[]
   slugsForCategory: Array<{ slug: string; title: string }>
+  maps: readonly MapInfo[]
   onToggleCreateMode: () => void
+  onToggleDrawMode: () => void
   onRequestDelete: () => void
   onSave: () => void
+  onOpenImport: () => void
   onSetPin: (id: string, patch: Partial<WorldMapPin>) => void
   message: string | null
   error: string | null
@@ -29,14 +36,18 @@ export function PinEditorPanel({
   isEditing,
   canEdit,
   createMode,
+  drawMode,
   saveState,
   cameraScale,
   selectedPin,
   categories,
   slugsForCategory,
+  maps,
   onToggleCreateMode,
+  onToggleDrawMode,
   onRequestDelete,
   onSave,
+  onOpenImport,
   onSetPin,
   message,
   error,
@@ -60,6 +71,14 @@ export function PinEditorPanel({
           >
             {createMode ? "Cancel create" : "Create pin"}
           </button>
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 transition disabled:opacity-50"
+            onClick={onToggleDrawMode}
+            disabled={!canEdit}
+          >
+            {drawMode ? "Cancel region" : "Draw region"}
+          </button>
           <button
             type="button"
             className="rounded-full border border-white/15 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 transition disabled:opacity-50"
@@ -78,6 +97,35 @@ export function PinEditorPanel({
           </button>
         </div>
 
+        {isEditing ? (
+          // exports are of the saved pins on every map; GeoJSON positions are map-image fractions (lib/pinExchange.ts)
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-xs text-white/60">Saved pins:</span>
+            <a
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 hover:bg-white/10 transition"
+              href="/api/world-map-pins/export?format=geojson"
+              download
+            >
+              Export GeoJSON
+            </a>
+            <a
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 hover:bg-white/10 transition"
+              href="/api/world-map-pins/export?format=csv"
+              download
+            >
+              Export CSV
+            </a>
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 hover:bg-white/10 transition disabled:opacity-50"
+              onClick={onOpenImport}
+              disabled={!canEdit}
+            >
+              Import…
+            </button>
+          </div>
+        ) : null}
+
         <div className="mt-4">
           {selectedPin ? (
             <div className="space-y-3">
@@ -102,14 +150,40 @@ export function PinEditorPanel({
               </div>
 
               <div>
-                <label className="block text-xs text-white/60">Description</label>
-                <textarea
-                  className="mt-1 w-full resize-none rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25 disabled:opacity-60"
-                  rows={4}
-                  value={selectedPin.description ?? ""}
+                <label className="block text-xs text-white/60">Kind</label>
+                <select
+                  className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25 disabled:opacity-60"
+                  value={selectedPin.kind ?? DEFAULT_PIN_KIND.id}
                   disabled={!canEdit}
-                  onChange={(e) => onSetPin(selectedPin.id, { description: e.target.value || undefined })}
-                />
+                  onChange={(e) =>
+                    onSetPin(selectedPin.id, { kind: e.target.value === DEFAULT_PIN_KIND.id ? undefined : e.target.value })
+                  }
+                >
+                  {PIN_KINDS.map((k) => (
+                    <option key={k.id} value={k.id}>
+                      {k.icon} {k.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs text-white/60">Description</label>
+                {canEdit ? (
+                  <textarea
+                    className="mt-1 w-full resize-none rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25 disabled:opacity-60"
+                    rows={4}
+                    value={selectedPin.description ?? ""}
+                    onChange={(e) => onSetPin(selectedPin.id, { description: e.target.value || undefined })}
+                  />
+                ) : selectedPin.description ? (
+                  <MarkdownRender
+                    source={selectedPin.description}
+                    className="prose prose-invert mt-1 max-w-none rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white/85"
+                  />
+                ) : (
+                  <p className="mt-1 text-sm text-white/40">No description.</p>
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-3">
@@ -151,6 +225,45 @@ export function PinEditorPanel({
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs text-white/60">Shown on</label>
+                <div className="mt-1 flex flex-wrap gap-x-4 gap-y-2 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white/85">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!selectedPin.maps}
+                      disabled={!canEdit}
+                      onChange={(e) =>
+                        onSetPin(selectedPin.id, { maps: e.target.checked ? undefined : maps.map((m) => m.id) })
+                      }
+                    />
+                    All maps
+                  </label>
+                  {selectedPin.maps
+                    ? maps.map((m) => {
+                        const current = selectedPin.maps ?? []
+                        const checked = current.includes(m.id)
+                        return (
+                          <label key={m.id} className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              // a pin has to stay on at least one map
+                              disabled={!canEdit || (checked && current.length === 1)}
+                              onChange={() =>
+                                onSetPin(selectedPin.id, {
+                                  maps: checked ? current.filter((id) => id !== m.id) : [...current, m.id],
+                                })
+                              }
+                            />
+                            {m.label}
+                          </label>
+                        )
+                      })
+                    : null}
+                </div>
+              </div>
+
               <div className="rounded-2xl border border-white/10 bg-black/20 p-3 text-xs text-white/70">
                 {canEdit ? "Drag the pin to reposition. " : "Coordinates: "}
                 {(selectedPin.x * 100).toFixed(2)}%, {(selectedPin.y * 100).toFixed(2)}%
@@ -0,0 +1,161 @@
+"use client"
+
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { PIN_CRS_NAME, type PinImportMode } from "@/lib/pinExchange"
+
+// the dry run from POST /api/world-map-pins/import
+export type PinImportPreview = {
+  added: WorldMapPin[]
+  changed: Array<{ before: WorldMapPin; after: WorldMapPin }>
+  removed: WorldMapPin[]
+}
+
+type PinImportModalProps = {
+  open: boolean
+  fileName: string | null
+  mode: PinImportMode
+  preview: PinImportPreview | null
+  busy: boolean
+  error: string | null
+  unsavedCount: number // local edits the import discards
+  onChooseFile: (file: File) => void
+  onModeChange: (mode: PinImportMode) => void
+  onCancel: () => void
+  onImport: () => void
+}
+
+const MODES: Array<{ id: PinImportMode; label: string; hint: string }> = [
+  { id: "merge", label: "Merge by id", hint: "Adds new pins and updates pins with the same id; keeps the rest." },
+  { id: "replace", label: "Replace", hint: "The file becomes the full pin list; pins missing from it are deleted." },
+]
+
+function DiffList({ label, tone, titles }: { label: string; tone: string; titles: string[] }) {
+  return (
+    <div>
+      <div className={`text-xs font-medium ${tone}`}>
+        {label}: {titles.length}
+      </div>
+      {titles.length ? (
+        <ul className="mt-1 max-h-24 list-disc overflow-auto pl-5 text-sm text-white/80">
+          {titles.map((title, i) => (
+            <li key={`${title}-${i}`}>{title}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
+
+export function PinImportModal({
+  open,
+  fileName,
+  mode,
+  preview,
+  busy,
+  error,
+  unsavedCount,
+  onChooseFile,
+  onModeChange,
+  onCancel,
+  onImport,
+}: PinImportModalProps) {
+  if (!open) return null
+
+  const changes = preview ? preview.added.length + preview.changed.length + preview.removed.length : 0
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6">
+      <div
+        className="w-full max-w-lg rounded-3xl border border-white/10 bg-black/60 p-5 shadow-xl backdrop-blur"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pin-import-title"
+      >
+        <h3 id="pin-import-title" className="text-lg font-semibold">
+          Import pins
+        </h3>
+        <p className="mt-2 text-sm text-white/70">
+          A GeoJSON or CSV file as exported here. Nothing is saved until you confirm the changes below.
+        </p>
+        <p className="mt-2 text-xs text-white/60">
+          Coordinates are map-image fractions, not longitude/latitude: x and y run from 0 to 1 across the image&apos;s
+          width and height, from the top-left corner with y growing downward. GeoJSON points are <code>[x, y]</code> in
+          the <code>{PIN_CRS_NAME}</code> CRS; CSV files need <code>id,x,y,title</code> columns
+          with x and y as plain decimals, and <code>maps</code> separated by <code>;</code>.
+        </p>
+
+        <label className="mt-4 block text-xs text-white/60">
+          File
+          <input
+            type="file"
+            accept=".geojson,.json,.csv,application/geo+json,application/json,text/csv"
+            className="mt-1 block w-full text-sm text-white file:mr-3 file:rounded-full file:border file:border-white/15 file:bg-white/5 file:px-3 file:py-1.5 file:text-sm file:text-white hover:file:bg-white/10"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) onChooseFile(file)
+            }}
+          />
+        </label>
+
+        <fieldset className="mt-4" disabled={busy}>
+          <legend className="text-xs text-white/60">Mode</legend>
+          <div className="mt-1 space-y-1">
+            {MODES.map((m) => (
+              <label key={m.id} className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="pin-import-mode"
+                  className="mt-1"
+                  checked={mode === m.id}
+                  onChange={() => onModeChange(m.id)}
+                />
+                <span>
+                  {m.label}
+                  <span className="block text-xs text-white/60">{m.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {preview ? (
+          <div className="mt-4 space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3">
+            <div className="text-xs text-white/60">{fileName}</div>
+            <DiffList label="Added" tone="text-emerald-200" titles={preview.added.map((p) => p.title)} />
+            <DiffList label="Changed" tone="text-amber-200" titles={preview.changed.map((c) => c.after.title)} />
+            <DiffList label="Removed" tone="text-red-200" titles={preview.removed.map((p) => p.title)} />
+          </div>
+        ) : null}
+
+        {unsavedCount ? (
+          <p className="mt-3 text-sm text-amber-100">
+            Importing discards your {unsavedCount} unsaved {unsavedCount === 1 ? "change" : "changes"}.
+          </p>
+        ) : null}
+        {error ? <p className="mt-3 text-sm text-red-200">{error}</p> : null}
+        <div className="sr-only" aria-live="polite">
+          {busy ? "Checking the file…" : preview ? `${changes} ${changes === 1 ? "change" : "changes"} to import.` : ""}
+        </div>
+
+        <div className="mt-5 flex flex-wrap items-center justify-end gap-2">
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm hover:bg-white/10 transition"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="rounded-full border border-amber-400/30 bg-amber-500/10 px-4 py-2 text-sm text-amber-100 hover:bg-amber-500/20 transition disabled:opacity-50"
+            onClick={onImport}
+            disabled={busy || !preview || !changes}
+          >
+            {preview && !changes ? "Nothing to import" : "Import"}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { PIN_KINDS } from "@/lib/pinKinds"
+
+type PinLegendProps = {
+  counts: Record<string, number> // pins per kind on the active map
+  hiddenKinds: string[]
+  onToggleKind: (kindId: string) => void
+}
+
+export function PinLegend({ counts, hiddenKinds, onToggleKind }: PinLegendProps) {
+  // only kinds used on this map, plus hidden ones so they can be turned back on
+  const kinds = PIN_KINDS.filter((k) => counts[k.id] || hiddenKinds.includes(k.id))
+  if (!kinds.length) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Pin categories">
+      {kinds.map((k) => {
+        const visible = !hiddenKinds.includes(k.id)
+        return (
+          <button
+            key={k.id}
+            type="button"
+            className={[
+              "inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs transition",
+              visible ? "border-white/15 bg-white/5 text-white/85 hover:bg-white/10" : "border-white/10 text-white/40 hover:bg-white/5",
+            ].join(" ")}
+            onClick={() => onToggleKind(k.id)}
+            aria-pressed={visible}
+            title={visible ? `Hide ${k.label}` : `Show ${k.label}`}
+          >
+            <span
+              aria-hidden
+              className="flex h-5 w-5 items-center justify-center rounded-full border bg-black/55 text-[10px] leading-none"
+              style={{ borderColor: k.color, color: k.color, opacity: visible ? 1 : 0.4 }}
+            >
+              {k.icon}
+            </span>
+            <span className={visible ? "" : "line-through"}>{k.label}</span>
+            <span className="text-white/45">{counts[k.id] ?? 0}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useMemo, type KeyboardEvent } from "react"
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { PIN_KINDS, getPinKind } from "@/lib/pinKinds"
+
+type PinListViewProps = {
+  mapLabel: string
+  pins: WorldMapPin[] // every pin on the active map, hidden kinds included
+  selectedId: string | null
+  entryTitleByKey: Map<string, string> // "category/slug" -> entry title
+  onChoose: (pin: WorldMapPin) => void
+  onClose: () => void
+}
+
+/**
+ * The map's pins as a plain list grouped by kind, for keyboard and
+ * screen-reader users and anyone who would rather read than pan.
+ */
+export function PinListView({ mapLabel, pins, selectedId, entryTitleByKey, onChoose, onClose }: PinListViewProps) {
+  const groups = useMemo(
+    () =>
+      PIN_KINDS.map((kind) => ({
+        kind,
+        pins: pins.filter((p) => getPinKind(p.kind).id === kind.id).sort((a, b) => a.title.localeCompare(b.title)),
+      })).filter((g) => g.pins.length > 0),
+    [pins],
+  )
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key !== "Escape") return
+    event.stopPropagation()
+    onClose()
+  }
+
+  return (
+    <nav
+      className="absolute bottom-6 left-6 top-36 z-40 flex w-[min(360px,85vw)] flex-col overflow-hidden rounded-3xl border border-white/10 bg-black/70 shadow-xl backdrop-blur"
+      aria-label={`Pins on ${mapLabel}`}
+      onKeyDown={onKeyDown}
+    >
+      <div className="flex items-center justify-between gap-3 border-b border-white/10 px-5 py-3">
+        <h2 className="text-sm font-semibold">
+          Pins <span className="font-normal text-white/50">({pins.length})</span>
+        </h2>
+        <button
+          type="button"
+          className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs hover:bg-white/10 transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto px-3 py-3">
+        {groups.length === 0 ? <p className="px-2 text-sm text-white/60">No pins on this map.</p> : null}
+        {groups.map(({ kind, pins: kindPins }) => (
+          <section key={kind.id} className="mb-3" aria-label={kind.label}>
+            <h3 className="px-2 pb-1 text-[11px] uppercase tracking-[0.2em] text-white/50">
+              <span aria-hidden style={{ color: kind.color }}>
+                {kind.icon}
+              </span>{" "}
+              {kind.label}
+            </h3>
+            <ul>
+              {kindPins.map((pin) => {
+                const entryTitle =
+                  pin.mdxCategory && pin.mdxSlug ? entryTitleByKey.get(`${pin.mdxCategory}/${pin.mdxSlug}`) : undefined
+                const isSelected = pin.id === selectedId
+                return (
+                  <li key={pin.id}>
+                    <button
+                      type="button"
+                      className={[
+                        "w-full rounded-xl px-2 py-1.5 text-left text-sm transition",
+                        isSelected ? "bg-white/15 text-white" : "text-white/85 hover:bg-white/10",
+                      ].join(" ")}
+                      onClick={() => onChoose(pin)}
+                      aria-current={isSelected ? "true" : undefined}
+                    >
+                      <span className="block">{pin.title}</span>
+                      {pin.subtitle ? <span className="block text-xs text-white/55">{pin.subtitle}</span> : null}
+                      {entryTitle ? <span className="block text-xs text-white/45">Entry: {entryTitle}</span> : null}
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </nav>
+  )
+}
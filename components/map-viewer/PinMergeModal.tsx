@@ -0,0 +1,60 @@
+"use client"
+
+type PinMergeModalProps = {
+  open: boolean
+  pinTitles: string[] // pins both you and another editor changed
+  onCancel: () => void
+  onKeepMine: () => void
+  onKeepTheirs: () => void
+}
+
+export function PinMergeModal({ open, pinTitles, onCancel, onKeepMine, onKeepTheirs }: PinMergeModalProps) {
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-6">
+      <div
+        className="w-full max-w-md rounded-3xl border border-white/10 bg-black/60 p-5 shadow-xl backdrop-blur"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="pin-merge-title"
+      >
+        <h3 id="pin-merge-title" className="text-lg font-semibold">
+          Pins changed elsewhere
+        </h3>
+        <p className="mt-2 text-sm text-white/70">
+          Someone else saved changes to {pinTitles.length === 1 ? "a pin" : "pins"} you also edited. Your other edits
+          and theirs are merged; choose which version to keep for:
+        </p>
+        <ul className="mt-3 max-h-40 list-disc overflow-auto pl-5 text-sm text-white">
+          {pinTitles.map((title, i) => (
+            <li key={`${title}-${i}`}>{title}</li>
+          ))}
+        </ul>
+        <div className="mt-5 flex flex-wrap items-center justify-end gap-2">
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm hover:bg-white/10 transition"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm hover:bg-white/10 transition"
+            onClick={onKeepTheirs}
+          >
+            Use theirs
+          </button>
+          <button
+            type="button"
+            className="rounded-full border border-amber-400/30 bg-amber-500/10 px-4 py-2 text-sm text-amber-100 hover:bg-amber-500/20 transition"
+            onClick={onKeepMine}
+          >
+            Keep mine & Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
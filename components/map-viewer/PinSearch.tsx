@@ -0,0 +1,151 @@
+"use client"
+
+import { useId, useMemo, useState, type KeyboardEvent } from "react"
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { getPinKind } from "@/lib/pinKinds"
+
+type PinSearchProps = {
+  pins: WorldMapPin[]
+  entryTitleByKey: Map<string, string> // "category/slug" -> entry title
+  onChoose: (pin: WorldMapPin) => void
+}
+
+type PinMatch = {
+  pin: WorldMapPin
+  entryTitle?: string
+  score: number
+}
+
+const MAX_RESULTS = 8
+
+function fold(value: string) {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+}
+
+// title prefix > title > subtitle > linked entry title
+function scoreText(query: string, title: string, subtitle?: string, entryTitle?: string) {
+  const t = fold(title)
+  if (t.startsWith(query)) return 4
+  if (t.includes(query)) return 3
+  if (subtitle && fold(subtitle).includes(query)) return 2
+  if (entryTitle && fold(entryTitle).includes(query)) return 1
+  return 0
+}
+
+export function PinSearch({ pins, entryTitleByKey, onChoose }: PinSearchProps) {
+  const listId = useId()
+  const [query, setQuery] = useState("")
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const results = useMemo(() => {
+    const q = fold(query.trim())
+    if (!q) return []
+    const matches: PinMatch[] = []
+    for (const pin of pins) {
+      const entryTitle =
+        pin.mdxCategory && pin.mdxSlug ? entryTitleByKey.get(`${pin.mdxCategory}/${pin.mdxSlug}`) : undefined
+      const score = scoreText(q, pin.title, pin.subtitle, entryTitle)
+      if (score) matches.push({ pin, entryTitle, score })
+    }
+    return matches
+      .sort((a, b) => b.score - a.score || a.pin.title.localeCompare(b.pin.title))
+      .slice(0, MAX_RESULTS)
+  }, [pins, entryTitleByKey, query])
+
+  const choose = (match: PinMatch) => {
+    onChoose(match.pin)
+    setOpen(false)
+    setQuery(match.pin.title)
+  }
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setOpen(true)
+      setActiveIndex((i) => (results.length ? (i + 1) % results.length : 0))
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault()
+      setActiveIndex((i) => (results.length ? (i - 1 + results.length) % results.length : 0))
+    } else if (event.key === "Enter") {
+      const match = results[activeIndex]
+      if (!match) return
+      event.preventDefault()
+      choose(match)
+    } else if (event.key === "Escape") {
+      setOpen(false)
+    }
+  }
+
+  const showResults = open && query.trim().length > 0
+
+  return (
+    <div className="relative w-[min(320px,60vw)]">
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showResults && results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+        placeholder="Find a pin…"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setActiveIndex(0)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className="w-full rounded-xl border border-white/15 bg-black/40 px-3 py-2 text-sm text-white outline-none backdrop-blur placeholder:text-white/40 focus:border-white/30"
+      />
+
+      {showResults ? (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute inset-x-0 top-full mt-2 overflow-hidden rounded-2xl border border-white/10 bg-black/70 py-1 shadow-xl backdrop-blur"
+        >
+          {results.length ? (
+            results.map((match, i) => {
+              const kind = getPinKind(match.pin.kind)
+              return (
+                <li
+                  key={match.pin.id}
+                  id={`${listId}-${i}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  className={[
+                    "flex cursor-pointer items-start gap-2 px-3 py-2 text-sm",
+                    i === activeIndex ? "bg-white/10 text-white" : "text-white/80",
+                  ].join(" ")}
+                  // mousedown so the input's blur doesn't close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    choose(match)
+                  }}
+                  onMouseEnter={() => setActiveIndex(i)}
+                >
+                  <span aria-hidden style={{ color: kind.color }}>
+                    {kind.icon}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block truncate">{match.pin.title}</span>
+                    {match.pin.subtitle || match.entryTitle ? (
+                      <span className="block truncate text-xs text-white/50">
+                        {match.pin.subtitle ?? match.entryTitle}
+                      </span>
+                    ) : null}
+                  </span>
+                </li>
+              )
+            })
+          ) : (
+            <li className="px-3 py-2 text-sm text-white/50">No pins match</li>
+          )}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
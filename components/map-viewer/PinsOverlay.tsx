@@ -1,11 +1,20 @@
 "use client"
 
-import type { MouseEvent, PointerEvent } from "react"
+import { useMemo, type KeyboardEvent, type MouseEvent, type PointerEvent } from "react"
 import type { WorldMapPin } from "@/lib/worldMapPins"
+import { getPinKind } from "@/lib/pinKinds"
+import { clusterPins, type PinCluster } from "@/lib/pinClusters"
 import type { Camera, ImgSize } from "@/components/map-viewer/MapViewport"
 
 const DEBUG = process.env.NODE_ENV !== "production"
 
+// pins closer than this on screen are drawn as one cluster
+const CLUSTER_RADIUS_PX = 40
+// pins this far outside the viewport are still rendered, so panning doesn't pop them in
+const CULL_MARGIN_PX = 120
+// pins within this many pixels vertically count as one line when tabbing
+const READING_ROW_PX = 24
+
 type PinsOverlayProps = {
   pins: WorldMapPin[]
   selectedId: string | null
@@ -13,10 +22,14 @@ type PinsOverlayProps = {
   imgSize: ImgSize
   isEditing: boolean
   draggingId: string | null
+  clustering: boolean
+  viewport: { width: number; height: number }
+  onClusterClick: (cluster: PinCluster) => void
   onPinPointerDown: (event: PointerEvent<HTMLButtonElement>, id: string) => void
   onPinPointerMove: (event: PointerEvent<HTMLButtonElement>) => void
   onPinPointerUp: (event: PointerEvent<HTMLButtonElement>) => void
   onPinClick: (event: MouseEvent, pin: WorldMapPin) => void
+  onPinActivate: (pin: WorldMapPin) => void // Enter on a focused pin
 }
 
 export function PinsOverlay({
@@ -26,11 +39,44 @@ export function PinsOverlay({
   imgSize,
   isEditing,
   draggingId,
+  clustering,
+  viewport,
+  onClusterClick,
   onPinPointerDown,
   onPinPointerMove,
   onPinPointerUp,
   onPinClick,
+  onPinActivate,
 }: PinsOverlayProps) {
+  // Depends on the scale but not on tx/ty, so panning reuses the same clusters.
+  // The selected and dragged pins always stay individual.
+  const clusters = useMemo(() => {
+    const loose = pins.filter((p) => p.id === selectedId || p.id === draggingId)
+    const rest = pins.filter((p) => p.id !== selectedId && p.id !== draggingId)
+    const grouped: PinCluster[] = clustering
+      ? clusterPins(rest, imgSize, camera.scale, CLUSTER_RADIUS_PX)
+      : rest.map((p) => ({ id: p.id, x: p.x, y: p.y, pins: [p], bounds: { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y } }))
+    const all = [...grouped, ...loose.map((p) => ({ id: p.id, x: p.x, y: p.y, pins: [p], bounds: { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y } }))]
+    // DOM order is the Tab order: rows of READING_ROW_PX top to bottom, then left to right
+    const row = (c: PinCluster) => Math.floor((c.y * imgSize.h * camera.scale) / READING_ROW_PX)
+    return all.sort((a, b) => row(a) - row(b) || a.x - b.x)
+  }, [pins, selectedId, draggingId, clustering, imgSize, camera.scale])
+
+  const onPinKeyDown = (event: KeyboardEvent<HTMLButtonElement>, pin: WorldMapPin) => {
+    if (event.key !== "Enter") return
+    // instead of the button's click, which only selects on the first press
+    event.preventDefault()
+    event.stopPropagation()
+    onPinActivate(pin)
+  }
+
+  const isOnScreen = (left: number, top: number) =>
+    viewport.width <= 0 ||
+    (left >= -CULL_MARGIN_PX &&
+      top >= -CULL_MARGIN_PX &&
+      left <= viewport.width + CULL_MARGIN_PX &&
+      top <= viewport.height + CULL_MARGIN_PX)
+
   return (
     <div className="pointer-events-none absolute inset-0 z-20">
 
@@ -52,10 +98,41 @@ export function PinsOverlay({
       />
       }
 
-      {pins.map((pin) => {
+      {clusters.map((cluster) => {
+        const left = cluster.x * imgSize.w * camera.scale + camera.tx
+        const top = cluster.y * imgSize.h * camera.scale + camera.ty
+        if (!isOnScreen(left, top)) return null
+
+        if (cluster.pins.length > 1) {
+          const count = cluster.pins.length
+          const size = Math.min(56, 26 + Math.log2(count) * 5)
+          return (
+            <div
+              key={cluster.id}
+              className="pointer-events-auto absolute -translate-x-1/2 -translate-y-1/2"
+              style={{ left, top }}
+            >
+              <button
+                type="button"
+                className="flex items-center justify-center rounded-full border border-white/60 bg-black/60 text-xs font-semibold text-white shadow ring-4 ring-white/10 hover:bg-black/75 transition"
+                style={{ width: size, height: size }}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onClusterClick(cluster)
+                }}
+                aria-label={`${count} pins, zoom in`}
+                title={cluster.pins.slice(0, 5).map((p) => p.title).join(", ") + (count > 5 ? ", …" : "")}
+              >
+                {count}
+              </button>
+            </div>
+          )
+        }
+
+        const pin = cluster.pins[0]
         const isSelected = pin.id === selectedId
-        const left = pin.x * imgSize.w * camera.scale + camera.tx
-        const top = pin.y * imgSize.h * camera.scale + camera.ty
+        const kind = getPinKind(pin.kind)
 
         return (
           <div
@@ -66,9 +143,9 @@ export function PinsOverlay({
             <button
               type="button"
               className={[
-                "group relative rounded-full",
-                "h-4 w-4 border border-white/70 bg-white/20 shadow",
-                "hover:bg-white/30 transition",
+                "group relative flex items-center justify-center rounded-full",
+                "h-6 w-6 border bg-black/55 text-[12px] leading-none shadow",
+                "hover:bg-black/70 transition",
                 isSelected ? "ring-2 ring-white/80" : "ring-0",
                 isEditing ? (draggingId === pin.id ? "cursor-grabbing" : "cursor-grab") : "cursor-pointer",
               ].join(" ")}
@@ -76,8 +153,15 @@ export function PinsOverlay({
               onPointerMove={isEditing ? onPinPointerMove : undefined}
               onPointerUp={isEditing ? onPinPointerUp : undefined}
               onClick={(e) => onPinClick(e, pin)}
-              aria-label={pin.title}
+              onKeyDown={(e) => onPinKeyDown(e, pin)}
+              data-pin-id={pin.id}
+              aria-pressed={isSelected}
+              style={{ borderColor: kind.color, color: kind.color }}
+              aria-label={`${pin.title} (${kind.label})`}
             >
+              <span aria-hidden className="pointer-events-none">
+                {kind.icon}
+              </span>
               <span className="pointer-events-none absolute left-1/2 top-0 z-10 -translate-x-1/2 -translate-y-[140%] inline-flex flex-col items-start rounded-xl border border-white/10 bg-black/60 px-3 py-2 text-[11px] text-white/85 opacity-0 shadow-sm backdrop-blur transition-opacity duration-150 group-hover:opacity-100">
                 <span className="block whitespace-nowrap text-[11px] font-medium leading-tight text-white/90">
                   {pin.title}
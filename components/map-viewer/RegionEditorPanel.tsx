@@ -0,0 +1,236 @@
+"use client"
+
+import type { WorldMapRegion } from "@/lib/worldMapPins"
+import type { MapInfo } from "@/lib/maps"
+import { DEFAULT_REGION_STYLE } from "@/components/map-viewer/RegionsOverlay"
+
+type SaveState = "idle" | "saving" | "saved" | "error"
+
+type RegionEditorPanelProps = {
+  region: WorldMapRegion | null
+  canEdit: boolean
+  saveState: SaveState
+  categories: string[]
+  slugsForCategory: Array<{ slug: string; title: string }>
+  entryTitle: string | null // title of the linked entry, when it exists
+  maps: readonly MapInfo[]
+  onSetRegion: (id: string, patch: Partial<WorldMapRegion>) => void
+  onRequestDelete: () => void
+  onSave: () => void
+  onClose: () => void
+  onOpenEntry: () => void
+  message: string | null
+  error: string | null
+}
+
+const inputClass =
+  "mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25 disabled:opacity-60"
+
+export function RegionEditorPanel({
+  region,
+  canEdit,
+  saveState,
+  categories,
+  slugsForCategory,
+  entryTitle,
+  maps,
+  onSetRegion,
+  onRequestDelete,
+  onSave,
+  onClose,
+  onOpenEntry,
+  message,
+  error,
+}: RegionEditorPanelProps) {
+  if (!region) return null
+
+  const fillOpacity = region.fillOpacity ?? DEFAULT_REGION_STYLE.fillOpacity
+  const strokeWidth = region.strokeWidth ?? DEFAULT_REGION_STYLE.strokeWidth
+
+  return (
+    <div className="absolute bottom-6 right-6 top-6 z-30 w-[min(420px,90vw)] overflow-hidden rounded-3xl border border-white/10 bg-black/50 shadow-xl backdrop-blur">
+      <div className="h-full overflow-auto p-5">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Region</h2>
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs hover:bg-white/10 transition"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        {canEdit ? (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 transition"
+              onClick={onRequestDelete}
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 transition disabled:opacity-50"
+              onClick={onSave}
+              disabled={saveState === "saving"}
+            >
+              Save
+            </button>
+          </div>
+        ) : null}
+
+        <div className="mt-4 space-y-3">
+          <div>
+            <label className="block text-xs text-white/60">Title</label>
+            <input
+              className={inputClass}
+              value={region.title}
+              disabled={!canEdit}
+              onChange={(e) => onSetRegion(region.id, { title: e.target.value })}
+            />
+          </div>
+
+          {canEdit ? (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-white/60">Fill</label>
+                  <div className="mt-1 flex items-center gap-2">
+                    <input
+                      type="color"
+                      className="h-9 w-12 cursor-pointer rounded-lg border border-white/10 bg-black/30"
+                      value={region.fill ?? DEFAULT_REGION_STYLE.fill}
+                      onChange={(e) => onSetRegion(region.id, { fill: e.target.value })}
+                    />
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      className="w-full"
+                      value={fillOpacity}
+                      onChange={(e) => onSetRegion(region.id, { fillOpacity: Number(e.target.value) })}
+                      aria-label="Fill opacity"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-white/60">Stroke</label>
+                  <div className="mt-1 flex items-center gap-2">
+                    <input
+                      type="color"
+                      className="h-9 w-12 cursor-pointer rounded-lg border border-white/10 bg-black/30"
+                      value={region.stroke ?? DEFAULT_REGION_STYLE.stroke}
+                      onChange={(e) => onSetRegion(region.id, { stroke: e.target.value })}
+                    />
+                    <input
+                      type="range"
+                      min={0}
+                      max={8}
+                      step={0.5}
+                      className="w-full"
+                      value={strokeWidth}
+                      onChange={(e) => onSetRegion(region.id, { strokeWidth: Number(e.target.value) })}
+                      aria-label="Stroke width"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-white/60">MDX Category</label>
+                  <select
+                    className={inputClass}
+                    value={region.mdxCategory ?? ""}
+                    onChange={(e) => onSetRegion(region.id, { mdxCategory: e.target.value || undefined, mdxSlug: undefined })}
+                  >
+                    <option value="">(none)</option>
+                    {categories.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-white/60">MDX Slug</label>
+                  <select
+                    className={inputClass}
+                    value={region.mdxSlug ?? ""}
+                    disabled={!region.mdxCategory}
+                    onChange={(e) => onSetRegion(region.id, { mdxSlug: e.target.value || undefined })}
+                  >
+                    <option value="">(none)</option>
+                    {slugsForCategory.map((s) => (
+                      <option key={s.slug} value={s.slug}>
+                        {s.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs text-white/60">Shown on</label>
+                <div className="mt-1 flex flex-wrap gap-x-4 gap-y-2 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white/85">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!region.maps}
+                      onChange={(e) => onSetRegion(region.id, { maps: e.target.checked ? undefined : maps.map((m) => m.id) })}
+                    />
+                    All maps
+                  </label>
+                  {region.maps
+                    ? maps.map((m) => {
+                        const current = region.maps ?? []
+                        const checked = current.includes(m.id)
+                        return (
+                          <label key={m.id} className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              // a region has to stay on at least one map
+                              disabled={checked && current.length === 1}
+                              onChange={() =>
+                                onSetRegion(region.id, {
+                                  maps: checked ? current.filter((id) => id !== m.id) : [...current, m.id],
+                                })
+                              }
+                            />
+                            {m.label}
+                          </label>
+                        )
+                      })
+                    : null}
+                </div>
+              </div>
+
+              <div className="rounded-2xl border border-white/10 bg-black/20 p-3 text-xs text-white/70">
+                {region.points.length} vertices. Drag a vertex to move it, drag an edge midpoint to add one,
+                double-click a vertex to remove it.
+              </div>
+            </>
+          ) : region.mdxCategory && region.mdxSlug ? (
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm hover:bg-white/10 transition"
+              onClick={onOpenEntry}
+            >
+              Open {entryTitle ?? "linked page"}
+            </button>
+          ) : (
+            <p className="text-sm text-white/40">No linked page.</p>
+          )}
+        </div>
+
+        {message ? <div className="mt-4 text-sm text-white/70">{message}</div> : null}
+        {error ? <div className="mt-2 text-sm text-red-200">{error}</div> : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useState, type MouseEvent, type PointerEvent } from "react"
+import type { RegionPoint, WorldMapRegion } from "@/lib/worldMapPins"
+import type { Camera, ImgSize } from "@/components/map-viewer/MapViewport"
+
+export const DEFAULT_REGION_STYLE = {
+  fill: "#38bdf8",
+  fillOpacity: 0.18,
+  stroke: "#38bdf8",
+  strokeWidth: 2,
+} as const
+
+type RegionsOverlayProps = {
+  regions: WorldMapRegion[]
+  selectedId: string | null
+  camera: Camera
+  imgSize: ImgSize
+  drawing: boolean // clicks go to the map (new vertices), not to existing regions
+  editable: boolean // show vertex handles on the selected region
+  draftPoints: RegionPoint[]
+  onRegionClick: (event: MouseEvent, region: WorldMapRegion) => void
+  onVertexPointerDown: (event: PointerEvent<SVGCircleElement>, index: number) => void
+  onVertexPointerMove: (event: PointerEvent<SVGCircleElement>) => void
+  onVertexPointerUp: (event: PointerEvent<SVGCircleElement>) => void
+  onVertexDoubleClick: (index: number) => void
+  onMidpointPointerDown: (event: PointerEvent<SVGCircleElement>, index: number) => void
+  onDraftClose: () => void
+}
+
+// Area-weighted centroid; falls back to the vertex average for degenerate shapes.
+function centroid(points: RegionPoint[]): RegionPoint {
+  let area = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    const cross = a.x * b.y - b.x * a.y
+    area += cross
+    cx += (a.x + b.x) * cross
+    cy += (a.y + b.y) * cross
+  }
+  if (Math.abs(area) < 1e-9) {
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    }
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) }
+}
+
+/**
+ * Region polygons, drawn in one SVG under the pins. Shapes live in normalized
+ * coordinates inside a group that carries the camera transform, so they move
+ * with the map without recomputing points; strokes use non-scaling-stroke to
+ * keep a constant on-screen width. Labels and handles are placed in screen
+ * space so they don't scale with the zoom.
+ */
+export function RegionsOverlay({
+  regions,
+  selectedId,
+  camera,
+  imgSize,
+  drawing,
+  editable,
+  draftPoints,
+  onRegionClick,
+  onVertexPointerDown,
+  onVertexPointerMove,
+  onVertexPointerUp,
+  onVertexDoubleClick,
+  onMidpointPointerDown,
+  onDraftClose,
+}: RegionsOverlayProps) {
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const toScreen = (p: RegionPoint) => ({
+    x: p.x * imgSize.w * camera.scale + camera.tx,
+    y: p.y * imgSize.h * camera.scale + camera.ty,
+  })
+
+  const selected = regions.find((r) => r.id === selectedId) ?? null
+  const labelled = regions.filter((r) => r.id === hoveredId || r.id === selectedId)
+
+  return (
+    <svg className="pointer-events-none absolute inset-0 z-10 h-full w-full">
+      <g
+        transform={`matrix(${imgSize.w * camera.scale}, 0, 0, ${imgSize.h * camera.scale}, ${camera.tx}, ${camera.ty})`}
+      >
+        {regions.map((region) => {
+          const active = region.id === hoveredId || region.id === selectedId
+          const fillOpacity = region.fillOpacity ?? DEFAULT_REGION_STYLE.fillOpacity
+          const strokeWidth = region.strokeWidth ?? DEFAULT_REGION_STYLE.strokeWidth
+          return (
+            <polygon
+              key={region.id}
+              points={region.points.map((p) => `${p.x},${p.y}`).join(" ")}
+              fill={region.fill ?? DEFAULT_REGION_STYLE.fill}
+              fillOpacity={active ? Math.min(1, fillOpacity + 0.15) : fillOpacity}
+              stroke={region.stroke ?? DEFAULT_REGION_STYLE.stroke}
+              strokeWidth={active ? strokeWidth + 1 : strokeWidth}
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+              className={drawing ? "" : "pointer-events-auto cursor-pointer transition-[fill-opacity]"}
+              onPointerEnter={() => setHoveredId(region.id)}
+              onPointerLeave={() => setHoveredId((prev) => (prev === region.id ? null : prev))}
+              onClick={(e) => onRegionClick(e, region)}
+            >
+              <title>{region.title}</title>
+            </polygon>
+          )
+        })}
+      </g>
+
+      {labelled.map((region) => {
+        const at = toScreen(centroid(region.points))
+        return (
+          <text
+            key={region.id}
+            x={at.x}
+            y={at.y}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className="fill-white text-[12px] font-medium"
+            stroke="#000"
+            strokeOpacity={0.6}
+            strokeWidth={3}
+            paintOrder="stroke"
+          >
+            {region.title}
+          </text>
+        )
+      })}
+
+      {editable && selected
+        ? selected.points.map((p, i) => {
+            const a = toScreen(p)
+            const b = toScreen(selected.points[(i + 1) % selected.points.length])
+            return (
+              <g key={i}>
+                {/* midpoint handle: drag to insert a vertex on this edge */}
+                <circle
+                  cx={(a.x + b.x) / 2}
+                  cy={(a.y + b.y) / 2}
+                  r={4}
+                  fill="#fff"
+                  fillOpacity={0.35}
+                  stroke="#000"
+                  strokeOpacity={0.5}
+                  className="pointer-events-auto cursor-copy"
+                  onPointerDown={(e) => onMidpointPointerDown(e, i)}
+                  onPointerMove={onVertexPointerMove}
+                  onPointerUp={onVertexPointerUp}
+                />
+                <circle
+                  cx={a.x}
+                  cy={a.y}
+                  r={6}
+                  fill="#fff"
+                  stroke="#000"
+                  strokeOpacity={0.6}
+                  strokeWidth={1.5}
+                  className="pointer-events-auto cursor-move"
+                  onPointerDown={(e) => onVertexPointerDown(e, i)}
+                  onPointerMove={onVertexPointerMove}
+                  onPointerUp={onVertexPointerUp}
+                  onDoubleClick={(e) => {
+                    e.stopPropagation()
+                    onVertexDoubleClick(i)
+                  }}
+                >
+                  <title>Drag to move, double-click to remove</title>
+                </circle>
+              </g>
+            )
+          })
+        : null}
+
+      {draftPoints.length ? (
+        <g>
+          <polyline
+            points={draftPoints.map((p) => {
+              const s = toScreen(p)
+              return `${s.x},${s.y}`
+            }).join(" ")}
+            fill="none"
+            stroke="#fff"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+          {draftPoints.map((p, i) => {
+            const s = toScreen(p)
+            // the first vertex closes the shape once there are enough points
+            const closes = i === 0 && draftPoints.length >= 3
+            return (
+              <circle
+                key={i}
+                cx={s.x}
+                cy={s.y}
+                r={closes ? 7 : 4}
+                fill={closes ? "#38bdf8" : "#fff"}
+                stroke="#000"
+                strokeOpacity={0.6}
+                className={closes ? "pointer-events-auto cursor-pointer" : ""}
+                onPointerDown={closes ? (e) => e.stopPropagation() : undefined}
+                onClick={
+                  closes
+                    ? (e) => {
+                        e.stopPropagation()
+                        onDraftClose()
+                      }
+                    : undefined
+                }
+              >
+                {closes ? <title>Close the shape</title> : null}
+              </circle>
+            )
+          })}
+        </g>
+      ) : null}
+    </svg>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useState, type MouseEvent } from "react"
+import type { RegionPoint, WorldMapRoute } from "@/lib/worldMapPins"
+import type { MapScale } from "@/lib/maps"
+import { formatDistance, getRouteKind, polylineLength } from "@/lib/travel"
+import type { Camera, ImgSize } from "@/components/map-viewer/MapViewport"
+
+type RoutesOverlayProps = {
+  routes: WorldMapRoute[]
+  selectedId: string | null
+  camera: Camera
+  imgSize: ImgSize
+  mapScale: MapScale
+  measuring: boolean // ruler clicks go to the map, not to saved routes
+  rulerPoints: RegionPoint[]
+  onRouteClick: (event: MouseEvent, route: WorldMapRoute) => void
+}
+
+/**
+ * Saved routes and the ruler, drawn between the regions and the pins.
+ * Unlike RegionsOverlay the lines are projected to screen space, so dash
+ * patterns keep the same length at every zoom.
+ */
+export function RoutesOverlay({
+  routes,
+  selectedId,
+  camera,
+  imgSize,
+  mapScale,
+  measuring,
+  rulerPoints,
+  onRouteClick,
+}: RoutesOverlayProps) {
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  const toScreen = (p: RegionPoint) => ({
+    x: p.x * imgSize.w * camera.scale + camera.tx,
+    y: p.y * imgSize.h * camera.scale + camera.ty,
+  })
+  const toPoints = (points: RegionPoint[]) =>
+    points
+      .map((p) => {
+        const s = toScreen(p)
+        return `${s.x},${s.y}`
+      })
+      .join(" ")
+
+  const rulerEnd = rulerPoints.length ? toScreen(rulerPoints[rulerPoints.length - 1]) : null
+
+  return (
+    <svg className="pointer-events-none absolute inset-0 z-10 h-full w-full">
+      {routes.map((route) => {
+        const kind = getRouteKind(route.kind)
+        const active = route.id === hoveredId || route.id === selectedId
+        const points = toPoints(route.points)
+        const label = toScreen(route.points[Math.floor(route.points.length / 2)])
+        return (
+          <g key={route.id}>
+            <polyline
+              points={points}
+              fill="none"
+              stroke="#000"
+              strokeOpacity={0.45}
+              strokeWidth={active ? 6 : 4}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+            <polyline
+              points={points}
+              fill="none"
+              stroke={kind.color}
+              strokeWidth={active ? 3.5 : 2}
+              strokeDasharray={kind.dash || undefined}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+            {/* wide invisible stroke so thin lines are easy to hit */}
+            <polyline
+              points={points}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={14}
+              className={measuring ? "" : "cursor-pointer"}
+              style={{ pointerEvents: measuring ? "none" : "stroke" }}
+              onPointerEnter={() => setHoveredId(route.id)}
+              onPointerLeave={() => setHoveredId((prev) => (prev === route.id ? null : prev))}
+              onClick={(e) => onRouteClick(e, route)}
+            >
+              <title>{route.title}</title>
+            </polyline>
+            {active ? (
+              <text
+                x={label.x}
+                y={label.y - 10}
+                textAnchor="middle"
+                className="fill-white text-[12px] font-medium"
+                stroke="#000"
+                strokeOpacity={0.6}
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {route.title} · {formatDistance(polylineLength(route.points, imgSize, mapScale), mapScale)}
+              </text>
+            ) : null}
+          </g>
+        )
+      })}
+
+      {rulerPoints.length ? (
+        <g>
+          <polyline
+            points={toPoints(rulerPoints)}
+            fill="none"
+            stroke="#fff"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            strokeLinejoin="round"
+          />
+          {rulerPoints.map((p, i) => {
+            const s = toScreen(p)
+            return <circle key={i} cx={s.x} cy={s.y} r={4} fill="#fff" stroke="#000" strokeOpacity={0.6} />
+          })}
+          {rulerEnd && rulerPoints.length > 1 ? (
+            <text
+              x={rulerEnd.x + 10}
+              y={rulerEnd.y - 10}
+              className="fill-white text-[12px] font-semibold"
+              stroke="#000"
+              strokeOpacity={0.7}
+              strokeWidth={3}
+              paintOrder="stroke"
+            >
+              {formatDistance(polylineLength(rulerPoints, imgSize, mapScale), mapScale)}
+            </text>
+          ) : null}
+        </g>
+      ) : null}
+    </svg>
+  )
+}
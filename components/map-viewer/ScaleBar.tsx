@@ -0,0 +1,23 @@
+"use client"
+
+import type { MapScale } from "@/lib/maps"
+import { formatDistance, niceScaleLength } from "@/lib/travel"
+
+type ScaleBarProps = {
+  scale: MapScale
+  cameraScale: number
+}
+
+const MAX_BAR_PX = 140
+
+export function ScaleBar({ scale, cameraScale }: ScaleBarProps) {
+  const { units, px } = niceScaleLength(scale.pixelsPerUnit * cameraScale, MAX_BAR_PX)
+  if (!units) return null
+
+  return (
+    <div className="pointer-events-none absolute bottom-6 left-6 z-30 rounded-xl border border-white/10 bg-black/45 px-3 py-2 text-[11px] text-white/80 shadow-sm backdrop-blur">
+      <div className="h-2 border-x-2 border-b-2 border-white/80" style={{ width: px }} />
+      <div className="mt-1">{formatDistance(units, scale)}</div>
+    </div>
+  )
+}
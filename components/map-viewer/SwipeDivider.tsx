@@ -0,0 +1,92 @@
+"use client"
+
+import { useRef, type KeyboardEvent, type PointerEvent } from "react"
+
+type SwipeDividerProps = {
+  position: number // 0..1 of the viewport width
+  leftLabel: string
+  rightLabel: string
+  onChange: (position: number) => void
+}
+
+const KEY_STEP = 0.02
+
+/**
+ * Vertical handle for the compare swipe. Rendered inside MapViewport, so its
+ * parent is the viewport and positions are fractions of the viewport width.
+ */
+export function SwipeDivider({ position, leftLabel, rightLabel, onChange }: SwipeDividerProps) {
+  const draggingRef = useRef(false)
+
+  const fromPointer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.parentElement?.getBoundingClientRect()
+    if (!rect || rect.width <= 0) return
+    onChange(Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)))
+  }
+
+  const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    // keep the viewport from starting a pan
+    event.stopPropagation()
+    if (event.button !== 0) return
+    draggingRef.current = true
+    try {
+      event.currentTarget.setPointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+  }
+
+  const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!draggingRef.current) return
+    event.stopPropagation()
+    fromPointer(event)
+  }
+
+  const onPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    draggingRef.current = false
+    try {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    } catch {
+      // ignore
+    }
+  }
+
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return
+    event.preventDefault()
+    event.stopPropagation()
+    const step = event.key === "ArrowLeft" ? -KEY_STEP : KEY_STEP
+    onChange(Math.min(1, Math.max(0, position + step)))
+  }
+
+  return (
+    <div
+      className="absolute inset-y-0 z-30 w-6 -translate-x-1/2 cursor-ew-resize touch-none outline-none"
+      style={{ left: `${position * 100}%` }}
+      role="slider"
+      tabIndex={0}
+      aria-label={`Swipe between ${leftLabel} and ${rightLabel}`}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(position * 100)}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={onKeyDown}
+    >
+      <div className="pointer-events-none absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 bg-white/80 shadow" />
+      <div className="pointer-events-none absolute left-1/2 top-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border border-white/60 bg-black/60 text-xs text-white shadow">
+        ⇆
+      </div>
+      <span className="pointer-events-none absolute right-full top-4 mr-2 whitespace-nowrap rounded-full bg-black/55 px-2 py-1 text-[11px] text-white/80">
+        {leftLabel}
+      </span>
+      <span className="pointer-events-none absolute left-full top-4 ml-2 whitespace-nowrap rounded-full bg-black/55 px-2 py-1 text-[11px] text-white/80">
+        {rightLabel}
+      </span>
+    </div>
+  )
+}
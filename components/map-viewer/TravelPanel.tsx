@@ -0,0 +1,249 @@
+"use client"
+
+import { useMemo, useState, useSyncExternalStore } from "react"
+import type { RegionPoint, WorldMapRoute } from "@/lib/worldMapPins"
+import type { MapScale } from "@/lib/maps"
+import {
+  DEFAULT_ROUTE_KIND,
+  TRAVEL_MODES,
+  WORLD_ROUTE_KINDS,
+  formatDistance,
+  formatTravelTime,
+  getRouteKind,
+  parseTravelSpeeds,
+  polylineLength,
+  type TravelModeId,
+} from "@/lib/travel"
+import type { ImgSize } from "@/components/map-viewer/MapViewport"
+
+type SaveState = "idle" | "saving" | "saved" | "error"
+
+type TravelPanelProps = {
+  route: WorldMapRoute | null // null while measuring with the ruler
+  rulerPoints: RegionPoint[]
+  imgSize: ImgSize
+  mapScale: MapScale
+  canEdit: boolean
+  saveState: SaveState
+  onClose: () => void
+  onUndoPoint: () => void
+  onSaveAsRoute: (title: string, kind: string) => void
+  onSetRoute: (id: string, patch: Partial<WorldMapRoute>) => void
+  onSaveRoute: () => void
+  onRequestDelete: () => void
+}
+
+const SPEEDS_STORAGE_KEY = "eonia:world-map:travel-speeds"
+
+// Speeds live in localStorage, per browser; these back useSyncExternalStore.
+const speedListeners = new Set<() => void>()
+
+function subscribeSpeeds(listener: () => void) {
+  speedListeners.add(listener)
+  window.addEventListener("storage", listener)
+  return () => {
+    speedListeners.delete(listener)
+    window.removeEventListener("storage", listener)
+  }
+}
+
+function readSpeeds() {
+  try {
+    return window.localStorage.getItem(SPEEDS_STORAGE_KEY) ?? "{}"
+  } catch {
+    return "{}"
+  }
+}
+
+function writeSpeeds(speeds: Record<string, number>) {
+  try {
+    window.localStorage.setItem(SPEEDS_STORAGE_KEY, JSON.stringify(speeds))
+  } catch {
+    // ignore (private mode, storage full)
+  }
+  speedListeners.forEach((listener) => listener())
+}
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+
+export function TravelPanel({
+  route,
+  rulerPoints,
+  imgSize,
+  mapScale,
+  canEdit,
+  saveState,
+  onClose,
+  onUndoPoint,
+  onSaveAsRoute,
+  onSetRoute,
+  onSaveRoute,
+  onRequestDelete,
+}: TravelPanelProps) {
+  const speedsRaw = useSyncExternalStore(subscribeSpeeds, readSpeeds, () => "{}")
+  const speeds = useMemo(() => parseTravelSpeeds(speedsRaw), [speedsRaw])
+  const [showSpeeds, setShowSpeeds] = useState(false)
+  const [newTitle, setNewTitle] = useState("")
+  const [newKind, setNewKind] = useState<string>(DEFAULT_ROUTE_KIND.id)
+
+  const points = route ? route.points : rulerPoints
+  const distance = polylineLength(points, imgSize, mapScale)
+  const usualMode: TravelModeId | null = route ? getRouteKind(route.kind).mode : null
+
+  const setSpeed = (mode: TravelModeId, value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return
+    writeSpeeds({ ...speeds, [mode]: value })
+  }
+
+  return (
+    <div className="absolute bottom-24 left-6 z-30 w-[min(320px,80vw)] rounded-3xl border border-white/10 bg-black/55 p-4 text-sm shadow-xl backdrop-blur">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-semibold">{route ? route.title : "Ruler"}</h2>
+        <button
+          type="button"
+          className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs hover:bg-white/10 transition"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {!route && points.length < 2 ? (
+        <p className="mt-2 text-xs text-white/60">Click the map or a pin to add points. Backspace removes the last one.</p>
+      ) : (
+        <>
+          <p className="mt-2 text-lg font-semibold">{formatDistance(distance, mapScale)}</p>
+          <ul className="mt-2 space-y-1 text-white/80">
+            {TRAVEL_MODES.map((mode) => (
+              <li key={mode.id} className="flex items-center justify-between gap-3">
+                <span>
+                  <span aria-hidden>{mode.icon}</span> {mode.label}
+                  {mode.id === usualMode ? <span className="ml-2 text-xs text-white/50">usual</span> : null}
+                </span>
+                <span className="tabular-nums">{formatTravelTime(distance / speeds[mode.id])}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <button
+        type="button"
+        className="mt-3 text-xs text-white/60 underline-offset-2 hover:underline"
+        onClick={() => setShowSpeeds((prev) => !prev)}
+        aria-expanded={showSpeeds}
+      >
+        {showSpeeds ? "Hide speeds" : "Travel speeds"}
+      </button>
+      {showSpeeds ? (
+        <div className="mt-2 space-y-2">
+          {TRAVEL_MODES.map((mode) => (
+            <label key={mode.id} className="flex items-center justify-between gap-3 text-xs text-white/70">
+              <span>{mode.label}</span>
+              <span className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  className="w-20 rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-right text-white outline-none focus:border-white/25"
+                  value={speeds[mode.id]}
+                  onChange={(e) => setSpeed(mode.id, Number(e.target.value))}
+                />
+                {mapScale.unitPlural}/day
+              </span>
+            </label>
+          ))}
+        </div>
+      ) : null}
+
+      {!route ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs hover:bg-white/10 transition disabled:opacity-50"
+            onClick={onUndoPoint}
+            disabled={!points.length}
+          >
+            Undo point
+          </button>
+        </div>
+      ) : null}
+
+      {!route && canEdit && points.length >= 2 ? (
+        <form
+          className="mt-3 space-y-2 border-t border-white/10 pt-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            onSaveAsRoute(newTitle, newKind)
+            setNewTitle("")
+          }}
+        >
+          <input
+            className={inputClass}
+            placeholder="Route name, e.g. Roanthur road"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            aria-label="Route name"
+          />
+          <div className="flex gap-2">
+            <select className={inputClass} value={newKind} onChange={(e) => setNewKind(e.target.value)} aria-label="Route kind">
+              {WORLD_ROUTE_KINDS.map((k) => (
+                <option key={k.id} value={k.id}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="shrink-0 rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs hover:bg-white/10 transition disabled:opacity-50"
+              disabled={!newTitle.trim() || saveState === "saving"}
+            >
+              Save route
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {route && canEdit ? (
+        <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
+          <input
+            className={inputClass}
+            value={route.title}
+            onChange={(e) => onSetRoute(route.id, { title: e.target.value })}
+            aria-label="Route name"
+          />
+          <select
+            className={inputClass}
+            value={getRouteKind(route.kind).id}
+            onChange={(e) => onSetRoute(route.id, { kind: e.target.value })}
+            aria-label="Route kind"
+          >
+            {WORLD_ROUTE_KINDS.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs hover:bg-white/10 transition"
+              onClick={onRequestDelete}
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs hover:bg-white/10 transition disabled:opacity-50"
+              onClick={onSaveRoute}
+              disabled={saveState === "saving"}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
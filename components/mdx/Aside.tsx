@@ -0,0 +1,22 @@
+import type { ReactNode } from "react"
+
+type AsideProps = {
+  title?: string
+  tone?: "note" | "warning" | "lore"
+  children?: ReactNode
+}
+
+const tones = {
+  note: "border-sky-400/30 bg-sky-500/10",
+  warning: "border-amber-400/30 bg-amber-500/10",
+  lore: "border-white/15 bg-white/5",
+}
+
+export function Aside({ title, tone = "note", children }: AsideProps) {
+  return (
+    <aside className={`not-prose my-6 rounded-2xl border px-5 py-4 text-sm text-white/80 ${tones[tone] ?? tones.note}`}>
+      {title ? <p className="mb-2 text-xs uppercase tracking-[0.2em] text-white/60">{title}</p> : null}
+      <div className="space-y-2 [&_p]:m-0">{children}</div>
+    </aside>
+  )
+}
@@ -0,0 +1,31 @@
+import Link from "next/link"
+import { getAllEntries } from "@/lib/content"
+import { entryHref, resolveWikiTarget } from "@/lib/wikiLinks"
+import { MdxProblem } from "@/components/mdx/MdxProblem"
+
+type EntryCardProps = {
+  slug: string
+}
+
+export function EntryCard({ slug }: EntryCardProps) {
+  const entries = getAllEntries()
+  const target = resolveWikiTarget(slug ?? "", entries)
+  const entry = target ? entries.find((e) => e.category === target.category && e.slug === target.slug) : null
+
+  if (!entry) {
+    return <MdxProblem title="EntryCard">No entry matches slug “{slug}”.</MdxProblem>
+  }
+
+  return (
+    <Link
+      href={entryHref(entry)}
+      className="not-prose my-6 block rounded-2xl border border-white/10 bg-white/5 p-5 no-underline hover:bg-white/10 transition"
+    >
+      <p className="text-xs text-white/50 uppercase tracking-wider">
+        {entry.frontmatter.region ?? entry.frontmatter.type ?? entry.category}
+      </p>
+      <p className="mt-2 text-lg font-medium text-white">{entry.frontmatter.title}</p>
+      <p className="mt-2 text-sm text-white/65">{entry.frontmatter.excerpt ?? "A page of lore awaits."}</p>
+    </Link>
+  )
+}
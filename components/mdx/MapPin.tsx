@@ -0,0 +1,66 @@
+import Link from "next/link"
+import { DEFAULT_MAP, WORLD_MAPS } from "@/lib/maps"
+import { readMapImageSize } from "@/lib/mapTiles"
+import { mapViewToSearch } from "@/lib/mapView"
+import { isPinOnMap, readWorldMapPins } from "@/lib/worldMapPins"
+import { MdxProblem } from "@/components/mdx/MdxProblem"
+
+type MapPinProps = {
+  id: string
+}
+
+// The map image is drawn at 3x the frame's width (height keeping its aspect)
+// and positioned so the pin's normalized coordinate lines up with the same
+// fraction of the frame on both axes.
+const MINI_MAP_SCALE = 3
+// frame shape when the map image's size can't be read
+const FALLBACK_ASPECT = 16 / 9
+// camera zoom the "Open map" link starts at, centered on the pin
+const FOCUS_ZOOM = 2.5
+
+export function MapPin({ id }: MapPinProps) {
+  const pin = readWorldMapPins().find((p) => p.id === id)
+
+  if (!pin) {
+    return <MdxProblem title="MapPin">No map pin with id “{id}”.</MdxProblem>
+  }
+
+  const map = WORLD_MAPS.find((m) => isPinOnMap(pin, m.id)) ?? DEFAULT_MAP
+  const size = readMapImageSize(map)
+  const aspect = size ? size.width / size.height : FALLBACK_ASPECT
+  const view = mapViewToSearch({ mapId: map.id, pin: pin.id, z: FOCUS_ZOOM, cx: pin.x, cy: pin.y }, DEFAULT_MAP.id)
+  const x = pin.x * 100
+  const y = pin.y * 100
+
+  return (
+    <Link
+      href={`/world-map?${view}`}
+      className="not-prose my-6 block overflow-hidden rounded-2xl border border-white/10 bg-black/40 no-underline hover:border-white/25 transition"
+    >
+      <div
+        className="relative w-full bg-no-repeat"
+        style={{
+          aspectRatio: aspect,
+          backgroundImage: `url(${map.src})`,
+          backgroundSize: `${MINI_MAP_SCALE * 100}% auto`,
+          backgroundPosition: `${x}% ${y}%`,
+        }}
+        role="img"
+        aria-label={`Map location of ${pin.title}`}
+      >
+        <span
+          className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/80 bg-white/30 shadow ring-2 ring-white/60"
+          style={{ left: `${x}%`, top: `${y}%` }}
+        />
+        <div className="pointer-events-none absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-black/60" />
+      </div>
+      <div className="flex items-center justify-between gap-4 px-4 py-3">
+        <div>
+          <p className="text-sm font-medium text-white">{pin.title}</p>
+          {pin.subtitle ? <p className="text-xs text-white/60">{pin.subtitle}</p> : null}
+        </div>
+        <span className="text-xs text-white/50">Open map →</span>
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,15 @@
+import type { ReactNode } from "react"
+
+type MdxProblemProps = {
+  title: string
+  children?: ReactNode
+}
+
+// Inline, visible error for a component that was used with bad props.
+export function MdxProblem({ title, children }: MdxProblemProps) {
+  return (
+    <span className="not-prose my-4 block rounded-2xl border border-rose-400/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-100">
+      <span className="font-mono text-xs text-rose-200/80">&lt;{title}&gt;</span> {children}
+    </span>
+  )
+}
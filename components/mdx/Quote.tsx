@@ -0,0 +1,22 @@
+import type { ReactNode } from "react"
+
+type QuoteProps = {
+  speaker?: string
+  source?: string
+  children?: ReactNode
+}
+
+export function Quote({ speaker, source, children }: QuoteProps) {
+  return (
+    <figure className="not-prose my-8 border-l-2 border-white/20 pl-5">
+      <blockquote className="text-lg italic text-white/85 [&_p]:m-0">{children}</blockquote>
+      {speaker || source ? (
+        <figcaption className="mt-3 text-sm text-white/55">
+          — {speaker}
+          {speaker && source ? ", " : null}
+          {source ? <cite>{source}</cite> : null}
+        </figcaption>
+      ) : null}
+    </figure>
+  )
+}
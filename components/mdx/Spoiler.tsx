@@ -0,0 +1,32 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+
+type SpoilerProps = {
+  label?: string
+  children?: ReactNode
+}
+
+export function Spoiler({ label = "Spoiler", children }: SpoilerProps) {
+  const [revealed, setRevealed] = useState(false)
+
+  return (
+    <div className="not-prose relative my-6 rounded-2xl border border-white/10 bg-white/5 px-5 py-4 text-sm text-white/80">
+      <div
+        className={revealed ? "transition" : "pointer-events-none select-none blur-sm transition"}
+        aria-hidden={!revealed}
+      >
+        {children}
+      </div>
+      {!revealed ? (
+        <button
+          type="button"
+          className="absolute inset-0 flex items-center justify-center rounded-2xl text-xs uppercase tracking-[0.2em] text-white/80 hover:bg-white/5 transition"
+          onClick={() => setRevealed(true)}
+        >
+          {label} — click to reveal
+        </button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { Aside } from "@/components/mdx/Aside"
+import { Quote } from "@/components/mdx/Quote"
+import { EntryCard } from "@/components/mdx/EntryCard"
+import { MapPin } from "@/components/mdx/MapPin"
+import { Spoiler } from "@/components/mdx/Spoiler"
+
+// Components writers can use inside content/**/*.mdx.
+// Anything capitalized that is not listed here is reported as unknown.
+export const mdxComponents = {
+  Aside,
+  Quote,
+  EntryCard,
+  MapPin,
+  Spoiler,
+}
+
+export const MDX_COMPONENT_NAMES = Object.keys(mdxComponents)
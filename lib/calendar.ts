@@ -0,0 +1,125 @@
+// The in-world calendar used by `dates` frontmatter and the /timeline page.
+// Edit the constants below to rename months, add eras or shift year offsets.
+
+// private month table: twelve months of thirty days
+const MONTHS = [
+  { name: "Frostwane", days: 30 },
+  { name: "Thawmoon", days: 30 },
+  { name: "Seedfall", days: 30 },
+  { name: "Bloomtide", days: 30 },
+  { name: "Highsun", days: 30 },
+  { name: "Emberday", days: 30 },
+  { name: "Goldreach", days: 30 },
+  { name: "Harvestwane", days: 30 },
+  { name: "Lanternmoon", days: 30 },
+  { name: "Duskfall", days: 30 },
+  { name: "Stormwake", days: 30 },
+  { name: "Longnight", days: 30 },
+] as const
+
+export type Era = {
+  id: string
+  name: string
+  abbr: string // written after the year: "845 KR"
+  offset: number // absolute year in which the era's year 1 falls
+  color: string // band color on the timeline
+}
+
+// private era table, oldest first
+// offsets put every era on one shared axis; an era lasts until the next one starts
+const ERAS: Era[] = [
+  { id: "first-age", name: "The First Age", abbr: "FA", offset: 0, color: "#a78bfa" },
+  { id: "kircian-reckoning", name: "Kircian Reckoning", abbr: "KR", offset: 1200, color: "#38bdf8" },
+]
+
+// calendar made public
+export const EONIA_MONTHS = MONTHS
+export const EONIA_ERAS = ERAS
+
+export const DAYS_PER_YEAR = MONTHS.reduce((sum, m) => sum + m.days, 0)
+
+// the era used when a date doesn't name one
+export const CURRENT_ERA = ERAS[ERAS.length - 1]
+
+/**
+ * A parsed in-world date.
+ * `absolute` is a fractional year on the shared axis and is what timelines sort by.
+ */
+export type EoniaDate = {
+  era: string // Era id
+  year: number
+  month?: number // 1-based
+  day?: number
+  absolute: number
+}
+
+// "12 Lanternmoon 845 KR", "Lanternmoon 845 KR", "845 KR", "845"
+const DATE_PATTERN = /^(?:(\d{1,2})\s+)?(?:([A-Za-z]+)\s+)?(-?\d+)(?:\s+([A-Za-z]+))?$/
+
+function findEra(abbr?: string) {
+  if (!abbr) return CURRENT_ERA
+  const wanted = abbr.toLowerCase()
+  return ERAS.find((e) => e.abbr.toLowerCase() === wanted || e.id === wanted) ?? null
+}
+
+function findMonth(name?: string) {
+  if (!name) return null
+  const wanted = name.toLowerCase()
+  const idx = MONTHS.findIndex((m) => m.name.toLowerCase() === wanted)
+  return idx === -1 ? null : idx
+}
+
+/**
+ * @param value - A date written as "[day] [Month] year [ERA]".
+ * @returns The parsed date, or null if it doesn't fit the calendar.
+ *
+ * example:
+ * import { parseEoniaDate } from 'lib/calendar';
+ *
+ * parseEoniaDate('9 Lanternmoon 845 KR') // { era: 'kircian-reckoning', year: 845, month: 9, day: 9, ... }
+ */
+export function parseEoniaDate(value: string): EoniaDate | null {
+  const match = DATE_PATTERN.exec(String(value).trim())
+  if (!match) return null
+  const [, dayText, monthText, yearText, eraText] = match
+
+  const era = findEra(eraText)
+  if (!era) return null
+
+  const monthIndex = findMonth(monthText)
+  if (monthText && monthIndex === null) return null
+  if (dayText && monthIndex === null) return null
+
+  const year = Number(yearText)
+  const day = dayText ? Number(dayText) : undefined
+  if (monthIndex !== null && day !== undefined && (day < 1 || day > MONTHS[monthIndex].days)) return null
+
+  const dayOfYear =
+    monthIndex === null
+      ? 0
+      : MONTHS.slice(0, monthIndex).reduce((sum, m) => sum + m.days, 0) + ((day ?? 1) - 1)
+
+  return {
+    era: era.id,
+    year,
+    month: monthIndex === null ? undefined : monthIndex + 1,
+    day,
+    absolute: era.offset + year - 1 + dayOfYear / DAYS_PER_YEAR,
+  }
+}
+
+export function formatEoniaDate(date: EoniaDate) {
+  const era = ERAS.find((e) => e.id === date.era) ?? CURRENT_ERA
+  const month = date.month ? MONTHS[date.month - 1]?.name : undefined
+  return [date.day, month, date.year, era.abbr].filter((part) => part !== undefined).join(" ")
+}
+
+/**
+ * @returns The era an absolute year falls in, or null before the first era.
+ */
+export function eraForAbsoluteYear(absolute: number): Era | null {
+  for (let i = ERAS.length - 1; i >= 0; i--) {
+    if (absolute >= ERAS[i].offset) return ERAS[i]
+  }
+  return null
+}
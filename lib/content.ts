@@ -1,6 +1,8 @@
 import fs from "fs"
 import path from "path"
 import matter from "gray-matter"
+import { normalizeTag, tagKey } from "@/lib/tags"
+import { validateFrontmatter, type ContentIssue } from "@/lib/contentSchema"
 
 const CONTENT_DIR = path.join(process.cwd(), "content")
 
@@ -13,13 +15,42 @@ export type Frontmatter = {
   music?: string
   tags?: string[]
   excerpt?: string
+  infobox?: Record<string, InfoboxValue> // fields per type, see INFOBOX_FIELDS
+  dates?: EntryDate[] // in-world events for the timeline, see lib/calendar.ts
+  relations?: EntryRelation[] // see RELATION_TYPES
+}
+
+export type InfoboxValue = string | string[]
+
+export type EntryRelation = {
+  target: string // slug, "category/slug" or title, resolved like a wiki link
+  type: string // "mentor", "rival", "member-of", ...
+}
+
+export type EntryDate = {
+  label: string
+  date: string // "[day] [Month] year [ERA]", e.g. "9 Lanternmoon 845 KR"
+  end?: string // same format, for events that span time
+  region?: string // defaults to the entry's region
+  faction?: string // wiki link target; defaults to the entry itself for factions
 }
 
 export type ContentEntry = {
   category: string
-  slug: string
+  slug: string // path inside the category, e.g. "kircia/roanthur"
+  folder: string // sub-folder inside the category, "" for top-level entries
+  file: string // path relative to the project root, e.g. "content/characters/ozu.mdx"
   frontmatter: Frontmatter
   content: string
+  issues: ContentIssue[] // frontmatter problems found at load time
+}
+
+export type ContentHealthReport = {
+  category: string
+  slug: string
+  file: string
+  title: string
+  issues: ContentIssue[]
 }
 
 export type EntrySummary = {
@@ -28,10 +59,46 @@ export type EntrySummary = {
   title: string
 }
 
-function readMdxFile(filePath: string) {
+export type TagSummary = {
+  tag: string // normalized, used in URLs
+  label: string // most common spelling in frontmatter
+  count: number
+}
+
+function readMdxFile(filePath: string, category: string, slug: string) {
   const raw = fs.readFileSync(filePath, "utf8")
   const { data, content } = matter(raw)
-  return { data: data as Frontmatter, content }
+  const { frontmatter, issues } = validateFrontmatter(data, { category, slug })
+  return { data: frontmatter, content, issues, file: path.relative(process.cwd(), filePath) }
+}
+
+// Sub-folder part of a nested slug: "kircia/roanthur" -> "kircia"
+export function folderOf(slug: string) {
+  const idx = slug.lastIndexOf("/")
+  return idx === -1 ? "" : slug.slice(0, idx)
+}
+
+// "kircia/eastern-marches" -> "Kircia / Eastern Marches"
+export function formatFolderName(folder: string) {
+  return folder
+    .split("/")
+    .map((part) => part.replace(/[-_]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()))
+    .join(" / ")
+}
+
+// Relative paths ("kircia/roanthur.mdx") of every entry file below dir.
+function collectEntryFiles(dir: string, relative = ""): string[] {
+  const files: string[] = []
+  for (const name of fs.readdirSync(dir)) {
+    const full = path.join(dir, name)
+    const rel = relative ? `${relative}/${name}` : name
+    if (fs.statSync(full).isDirectory()) {
+      files.push(...collectEntryFiles(full, rel))
+    } else if (name.endsWith(".mdx") || name.endsWith(".md")) {
+      files.push(rel)
+    }
+  }
+  return files
 }
 
 export function getAllCategories(): string[] {
@@ -50,18 +117,21 @@ export function getAllEntries(): ContentEntry[] {
 
   for (const category of categories) {
     const dir = path.join(CONTENT_DIR, category)
-    const files = fs.readdirSync(dir).filter((f) => f.endsWith(".mdx") || f.endsWith(".md"))
+    const files = collectEntryFiles(dir)
 
     for (const file of files) {
       const slug = file.replace(/\.mdx?$/, "")
       const full = path.join(dir, file)
-      const { data, content } = readMdxFile(full)
+      const { data, content, issues, file: relativeFile } = readMdxFile(full, category, slug)
 
       entries.push({
         category,
         slug,
+        folder: folderOf(slug),
+        file: relativeFile,
         frontmatter: data,
         content,
+        issues,
       })
     }
   }
@@ -73,6 +143,42 @@ export function getEntriesByCategory(category: string): ContentEntry[] {
   return getAllEntries().filter((e) => e.category === category)
 }
 
+export function getEntriesByFolder(category: string, folder: string): ContentEntry[] {
+  return getEntriesByCategory(category).filter((e) => e.folder === folder)
+}
+
+export function getAllTags(): TagSummary[] {
+  const spellings = new Map<string, Map<string, number>>()
+  const counts = new Map<string, number>()
+
+  for (const entry of getAllEntries()) {
+    const seen = new Set<string>()
+    for (const raw of entry.frontmatter.tags ?? []) {
+      const key = tagKey(String(raw))
+      if (!key || seen.has(key)) continue
+      seen.add(key)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+
+      const labels = spellings.get(key) ?? new Map<string, number>()
+      const label = String(raw).trim()
+      labels.set(label, (labels.get(label) ?? 0) + 1)
+      spellings.set(key, labels)
+    }
+  }
+
+  return Array.from(counts, ([key, count]) => {
+    const labels = Array.from(spellings.get(key) ?? [])
+    const label = labels.sort((a, b) => b[1] - a[1])[0]?.[0] ?? key
+    return { tag: normalizeTag(label), label, count }
+  }).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+export function getEntriesByTag(tag: string): ContentEntry[] {
+  const wanted = tagKey(tag)
+  if (!wanted) return []
+  return getAllEntries().filter((e) => (e.frontmatter.tags ?? []).some((t) => tagKey(String(t)) === wanted))
+}
+
 export function getAllEntrySummaries(): EntrySummary[] {
   return getAllEntries().map((e) => ({
     category: e.category,
@@ -84,9 +190,46 @@ export function getAllEntrySummaries(): EntrySummary[] {
 export function getEntry(category: string, slug: string): ContentEntry | null {
   if (typeof category !== "string" || typeof slug !== "string") return null
 
-  const full = path.join(CONTENT_DIR, category, `${slug}.mdx`)
-  if (!fs.existsSync(full)) return null
-  const { data, content } = readMdxFile(full)
+  const base = path.join(CONTENT_DIR, category)
+  // nested slugs are allowed, but never outside the category folder
+  if (!base.startsWith(CONTENT_DIR + path.sep)) return null
+  const full = [".mdx", ".md"]
+    .map((ext) => path.join(base, `${slug}${ext}`))
+    .find((candidate) => candidate.startsWith(base + path.sep) && fs.existsSync(candidate))
+  if (!full) return null
+  const { data, content, issues, file } = readMdxFile(full, category, slug)
+
+  return { category, slug, folder: folderOf(slug), file, frontmatter: data, content, issues }
+}
+
+/**
+ * Where a flat URL points after its entry moved into a folder:
+ * "roanthur-cloudless-city" -> "kircia/roanthur-cloudless-city". Only when
+ * exactly one entry in the category has that file name; null otherwise.
+ */
+export function findMovedEntrySlug(category: string, name: string): string | null {
+  if (typeof category !== "string" || typeof name !== "string" || name.includes("/")) return null
+
+  const base = path.join(CONTENT_DIR, category)
+  if (!base.startsWith(CONTENT_DIR + path.sep) || !fs.existsSync(base)) return null
+  const matches = collectEntryFiles(base)
+    .map((file) => file.replace(/\.mdx?$/, ""))
+    .filter((slug) => slug.endsWith(`/${name}`))
+  return matches.length === 1 ? matches[0] : null
+}
 
-  return { category, slug, frontmatter: data, content }
+/**
+ * Every entry with at least one frontmatter issue, errors first.
+ */
+export function getContentHealth(): ContentHealthReport[] {
+  return getAllEntries()
+    .filter((e) => e.issues.length > 0)
+    .map((e) => ({
+      category: e.category,
+      slug: e.slug,
+      file: e.file,
+      title: e.frontmatter.title,
+      issues: [...e.issues].sort((a, b) => (a.level === b.level ? 0 : a.level === "error" ? -1 : 1)),
+    }))
+    .sort((a, b) => a.file.localeCompare(b.file))
 }
@@ -0,0 +1,354 @@
+import type { EntryDate, EntryRelation, Frontmatter } from "@/lib/content"
+import { parseEoniaDate } from "@/lib/calendar"
+
+export const ENTRY_TYPES = ["character", "location", "faction", "lore"] as const
+
+export type EntryType = (typeof ENTRY_TYPES)[number]
+
+export type IssueLevel = "error" | "warning"
+
+export type ContentIssue = {
+  level: IssueLevel
+  field: string
+  message: string
+}
+
+type FieldKind = "string" | "number" | "string[]" | "path"
+
+type FieldRule = {
+  kind: FieldKind
+  required?: boolean
+  // missing but recommended: reported as a warning instead of an error
+  recommended?: boolean
+}
+
+type Schema = Record<string, FieldRule>
+
+const BASE_SCHEMA: Schema = {
+  title: { kind: "string", required: true },
+  type: { kind: "string", required: true },
+  region: { kind: "string" },
+  order: { kind: "number" },
+  cover: { kind: "path" },
+  music: { kind: "path" },
+  tags: { kind: "string[]" },
+  excerpt: { kind: "string", recommended: true },
+}
+
+// Per-type overrides on top of BASE_SCHEMA.
+const TYPE_SCHEMAS: Record<EntryType, Schema> = {
+  character: {
+    region: { kind: "string", recommended: true },
+  },
+  location: {
+    region: { kind: "string", required: true },
+  },
+  faction: {
+    region: { kind: "string", recommended: true },
+  },
+  lore: {},
+}
+
+// Infobox fields per type, in display order. Lore entries have no infobox.
+export const INFOBOX_FIELDS: Record<EntryType, ReadonlyArray<{ key: string; label: string }>> = {
+  character: [
+    { key: "rank", label: "Rank" },
+    { key: "affiliation", label: "Affiliation" },
+    { key: "home", label: "Home" },
+    { key: "status", label: "Status" },
+  ],
+  location: [
+    { key: "population", label: "Population" },
+    { key: "ruler", label: "Ruler" },
+    { key: "climate", label: "Climate" },
+  ],
+  faction: [
+    { key: "founded", label: "Founded" },
+    { key: "seat", label: "Seat" },
+    { key: "leader", label: "Leader" },
+  ],
+  lore: [],
+}
+
+// Relation types, read as "<this entry> is <type> of <target>": a character
+// with { target: "reyna", type: "mentor" } is Reyna's mentor.
+export const RELATION_TYPES = [
+  "mentor",
+  "student",
+  "rival",
+  "ally",
+  "enemy",
+  "family",
+  "friend",
+  "member-of",
+  "leader-of",
+  "located-in",
+] as const
+
+export type RelationType = (typeof RELATION_TYPES)[number]
+
+// Folder each type is expected to live in.
+const CATEGORY_TYPES: Record<string, EntryType> = {
+  characters: "character",
+  locations: "location",
+  factions: "faction",
+  lore: "lore",
+}
+
+export function isEntryType(value: unknown): value is EntryType {
+  return typeof value === "string" && (ENTRY_TYPES as readonly string[]).includes(value)
+}
+
+export function schemaFor(type: unknown): Schema {
+  return isEntryType(type) ? { ...BASE_SCHEMA, ...TYPE_SCHEMAS[type] } : BASE_SCHEMA
+}
+
+function describe(value: unknown) {
+  if (Array.isArray(value)) return "a list"
+  if (value === null) return "null"
+  if (value instanceof Date) return "a date"
+  return `a ${typeof value}`
+}
+
+/**
+ * Checks one field and returns the value to keep (coerced where the intent is
+ * obvious, e.g. tags: "a, b" -> ["a", "b"]) plus any issue found.
+ */
+function checkField(field: string, rule: FieldRule, value: unknown): { value: unknown; issue?: ContentIssue } {
+  if (value === undefined || value === null || value === "") {
+    if (rule.required) return { value: undefined, issue: { level: "error", field, message: `Missing required "${field}".` } }
+    if (rule.recommended) return { value: undefined, issue: { level: "warning", field, message: `"${field}" is recommended.` } }
+    return { value: undefined }
+  }
+
+  switch (rule.kind) {
+    case "string":
+    case "path":
+      if (typeof value === "number") {
+        return { value: String(value), issue: { level: "warning", field, message: `"${field}" should be text, got a number.` } }
+      }
+      if (typeof value !== "string") {
+        return { value: undefined, issue: { level: "error", field, message: `"${field}" must be text, got ${describe(value)}.` } }
+      }
+      if (rule.kind === "path" && !value.startsWith("/")) {
+        return { value, issue: { level: "warning", field, message: `"${field}" should be an absolute public path such as "/images/…".` } }
+      }
+      return { value }
+
+    case "number":
+      if (typeof value === "string" && value.trim() && !Number.isNaN(Number(value))) {
+        return { value: Number(value), issue: { level: "warning", field, message: `"${field}" should be a number, not quoted text.` } }
+      }
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return { value: undefined, issue: { level: "error", field, message: `"${field}" must be a number, got ${describe(value)}.` } }
+      }
+      return { value }
+
+    case "string[]":
+      if (typeof value === "string") {
+        const list = value.split(",").map((v) => v.trim()).filter(Boolean)
+        return { value: list, issue: { level: "error", field, message: `"${field}" must be a list like ["a", "b"], got a string.` } }
+      }
+      if (!Array.isArray(value)) {
+        return { value: undefined, issue: { level: "error", field, message: `"${field}" must be a list, got ${describe(value)}.` } }
+      }
+      if (value.some((v) => typeof v !== "string")) {
+        return {
+          value: value.filter((v) => v !== null && v !== undefined).map(String),
+          issue: { level: "warning", field, message: `Every "${field}" item should be text.` },
+        }
+      }
+      return { value }
+  }
+}
+
+/**
+ * Infobox values are text or lists of text; numbers (e.g. population) are
+ * accepted and kept as text. Keys must belong to the entry type.
+ */
+function checkInfobox(type: unknown, value: unknown): { value?: Record<string, string | string[]>; issues: ContentIssue[] } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { issues: [{ level: "error", field: "infobox", message: `"infobox" must be a block of key: value pairs, got ${describe(value)}.` }] }
+  }
+  if (!isEntryType(type) || INFOBOX_FIELDS[type].length === 0) {
+    return { issues: [{ level: "warning", field: "infobox", message: `Entries of type "${String(type)}" have no infobox fields.` }] }
+  }
+
+  const issues: ContentIssue[] = []
+  const known = INFOBOX_FIELDS[type].map((f) => f.key)
+  const infobox: Record<string, string | string[]> = {}
+
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    const field = `infobox.${key}`
+    if (!known.includes(key)) {
+      issues.push({ level: "warning", field, message: `Unknown ${type} infobox field. Expected one of: ${known.join(", ")}.` })
+      continue
+    }
+    if (typeof raw === "string" || typeof raw === "number") {
+      infobox[key] = String(raw)
+    } else if (Array.isArray(raw) && raw.every((v) => typeof v === "string" || typeof v === "number")) {
+      infobox[key] = raw.map(String)
+    } else if (raw !== null && raw !== undefined) {
+      issues.push({ level: "error", field, message: `Must be text or a list of text, got ${describe(raw)}.` })
+    }
+  }
+
+  return { value: infobox, issues }
+}
+
+export function isRelationType(value: unknown): value is RelationType {
+  return typeof value === "string" && (RELATION_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Each `relations` item needs a target and a type. Unknown types are kept but
+ * reported, so a new kind of relation shows up before it is added to the list.
+ */
+function checkRelations(value: unknown): { value?: EntryRelation[]; issues: ContentIssue[] } {
+  if (!Array.isArray(value)) {
+    return { issues: [{ level: "error", field: "relations", message: `"relations" must be a list of { target, type } items, got ${describe(value)}.` }] }
+  }
+
+  const issues: ContentIssue[] = []
+  const relations: EntryRelation[] = []
+
+  value.forEach((raw, i) => {
+    const field = `relations[${i}]`
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      issues.push({ level: "error", field, message: `Must be a { target, type } item, got ${describe(raw)}.` })
+      return
+    }
+    const item = raw as Record<string, unknown>
+    if (typeof item.target !== "string" || !item.target.trim()) {
+      issues.push({ level: "error", field: `${field}.target`, message: "Missing required \"target\"." })
+      return
+    }
+    if (typeof item.type !== "string" || !item.type.trim()) {
+      issues.push({ level: "error", field: `${field}.type`, message: "Missing required \"type\"." })
+      return
+    }
+    if (!isRelationType(item.type)) {
+      issues.push({ level: "warning", field: `${field}.type`, message: `Unknown relation "${item.type}". Expected one of: ${RELATION_TYPES.join(", ")}.` })
+    }
+    relations.push({ target: item.target.trim(), type: item.type.trim() })
+  })
+
+  return { value: relations, issues }
+}
+
+/**
+ * Each `dates` item needs a label and a date the Eonia calendar can parse.
+ * Items that can't be placed on the timeline are dropped.
+ */
+function checkDates(value: unknown): { value?: EntryDate[]; issues: ContentIssue[] } {
+  if (!Array.isArray(value)) {
+    return { issues: [{ level: "error", field: "dates", message: `"dates" must be a list of { label, date } items, got ${describe(value)}.` }] }
+  }
+
+  const issues: ContentIssue[] = []
+  const dates: EntryDate[] = []
+
+  value.forEach((raw, i) => {
+    const field = `dates[${i}]`
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      issues.push({ level: "error", field, message: `Must be a { label, date } item, got ${describe(raw)}.` })
+      return
+    }
+    const item = raw as Record<string, unknown>
+    const date = typeof item.date === "number" ? String(item.date) : item.date
+
+    if (typeof item.label !== "string" || !item.label.trim()) {
+      issues.push({ level: "error", field: `${field}.label`, message: "Missing required \"label\"." })
+      return
+    }
+    const start = typeof date === "string" ? parseEoniaDate(date) : null
+    if (typeof date !== "string" || !start) {
+      issues.push({ level: "error", field: `${field}.date`, message: `"${String(date ?? "")}" is not a valid date, expected e.g. "9 Lanternmoon 845 KR".` })
+      return
+    }
+
+    const entryDate: EntryDate = { label: item.label.trim(), date }
+    if (item.end !== undefined) {
+      const end = typeof item.end === "number" ? String(item.end) : item.end
+      const parsedEnd = typeof end === "string" ? parseEoniaDate(end) : null
+      if (typeof end !== "string" || !parsedEnd) {
+        issues.push({ level: "warning", field: `${field}.end`, message: `"${String(end)}" is not a valid date and was ignored.` })
+      } else if (parsedEnd.absolute < start.absolute) {
+        issues.push({ level: "warning", field: `${field}.end`, message: "End date is before the start date and was ignored." })
+      } else {
+        entryDate.end = end
+      }
+    }
+    for (const key of ["region", "faction"] as const) {
+      if (typeof item[key] === "string") entryDate[key] = item[key]
+      else if (item[key] !== undefined) issues.push({ level: "warning", field: `${field}.${key}`, message: `"${key}" must be text and was ignored.` })
+    }
+    dates.push(entryDate)
+  })
+
+  return { value: dates, issues }
+}
+
+/**
+ * Validates raw frontmatter against the schema for its `type`.
+ * Always returns usable frontmatter so one bad file never breaks the site;
+ * the issues say what had to be fixed up.
+ */
+export function validateFrontmatter(
+  data: Record<string, unknown>,
+  context: { category: string; slug: string },
+): { frontmatter: Frontmatter; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = []
+  const result: Record<string, unknown> = { ...data }
+
+  if (data.type !== undefined && !isEntryType(data.type)) {
+    issues.push({
+      level: "warning",
+      field: "type",
+      message: `Unknown type "${String(data.type)}". Expected one of: ${ENTRY_TYPES.join(", ")}.`,
+    })
+  }
+
+  const expectedType = CATEGORY_TYPES[context.category]
+  if (expectedType && isEntryType(data.type) && data.type !== expectedType) {
+    issues.push({
+      level: "warning",
+      field: "type",
+      message: `Type "${data.type}" does not match the "${context.category}" folder (expected "${expectedType}").`,
+    })
+  }
+
+  for (const [field, rule] of Object.entries(schemaFor(data.type))) {
+    const checked = checkField(field, rule, data[field])
+    if (checked.value === undefined) delete result[field]
+    else result[field] = checked.value
+    if (checked.issue) issues.push(checked.issue)
+  }
+
+  if (data.infobox !== undefined) {
+    const checked = checkInfobox(data.type, data.infobox)
+    if (checked.value === undefined) delete result.infobox
+    else result.infobox = checked.value
+    issues.push(...checked.issues)
+  }
+
+  if (data.relations !== undefined) {
+    const checked = checkRelations(data.relations)
+    if (checked.value === undefined) delete result.relations
+    else result.relations = checked.value
+    issues.push(...checked.issues)
+  }
+
+  if (data.dates !== undefined) {
+    const checked = checkDates(data.dates)
+    if (checked.value === undefined) delete result.dates
+    else result.dates = checked.value
+    issues.push(...checked.issues)
+  }
+
+  if (typeof result.title !== "string") {
+    result.title = context.slug.split("/").pop() ?? context.slug
+  }
+
+  return { frontmatter: result as Frontmatter, issues }
+}
@@ -0,0 +1,49 @@
+import { getAllEntries, type ContentEntry } from "@/lib/content"
+import { INFOBOX_FIELDS, isEntryType } from "@/lib/contentSchema"
+import { entryHref, resolveWikiTarget } from "@/lib/wikiLinks"
+
+// A whole value written as a wiki link: "[[gilded-quill]]" or "[[gilded-quill|the Quill]]"
+const WHOLE_WIKI_LINK = /^\[\[([^\[\]|]+)(?:\|([^\[\]]+))?\]\]$/
+
+export type InfoboxItem = {
+  text: string
+  href?: string
+}
+
+export type InfoboxRow = {
+  key: string
+  label: string
+  items: InfoboxItem[]
+}
+
+function resolveItem(value: string, entry: ContentEntry, entries: ContentEntry[]): InfoboxItem {
+  const wiki = WHOLE_WIKI_LINK.exec(value.trim())
+  const target = wiki ? wiki[1] : value
+  const text = wiki ? (wiki[2] ?? wiki[1]).trim() : value
+
+  const hit = resolveWikiTarget(target, entries)
+  if (!hit || (hit.category === entry.category && hit.slug === entry.slug)) return { text }
+  return { text, href: entryHref(hit) }
+}
+
+/**
+ * Infobox rows for an entry, in the order defined for its type. Values that
+ * name another entry (by slug, title or [[wiki link]]) get an href.
+ */
+export function resolveInfobox(entry: ContentEntry, entries: ContentEntry[] = getAllEntries()): InfoboxRow[] {
+  const { type, infobox } = entry.frontmatter
+  if (!infobox || !isEntryType(type)) return []
+
+  return INFOBOX_FIELDS[type]
+    .filter((field) => infobox[field.key] !== undefined)
+    .map((field) => {
+      const raw = infobox[field.key]
+      const values = (Array.isArray(raw) ? raw : [raw]).filter((v) => v.trim())
+      return {
+        key: field.key,
+        label: field.label,
+        items: values.map((value) => resolveItem(value, entry, entries)),
+      }
+    })
+    .filter((row) => row.items.length > 0)
+}
@@ -0,0 +1,70 @@
+import fs from "fs"
+import path from "path"
+import { WORLD_MAPS, type MapInfo } from "@/lib/maps"
+import { tilesDir, type TileManifest } from "@/lib/tilePyramid"
+
+const PUBLIC_DIR = path.join(process.cwd(), "public")
+
+function isManifest(value: unknown): value is TileManifest {
+  if (!value || typeof value !== "object") return false
+  const m = value as Record<string, unknown>
+  return (
+    typeof m.mapId === "string" &&
+    ["width", "height", "tileSize", "minLevel", "maxLevel", "baseLevel", "baseWidth", "baseHeight"].every(
+      (key) => typeof m[key] === "number" && Number.isFinite(m[key]),
+    ) &&
+    m.format === "webp"
+  )
+}
+
+/**
+ * Tile manifests for the maps that have a generated pyramid
+ * (npm run tiles:build), keyed by map id. Maps without one are left out and
+ * keep rendering their single `src` image.
+ */
+export function readTileManifests(): Record<string, TileManifest> {
+  const manifests: Record<string, TileManifest> = {}
+  for (const map of WORLD_MAPS) {
+    const file = path.join(PUBLIC_DIR, tilesDir(map.id), "manifest.json")
+    if (!fs.existsSync(file)) continue
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, "utf8"))
+      if (isManifest(parsed) && parsed.mapId === map.id) manifests[map.id] = parsed
+      else console.error(`Ignoring invalid tile manifest ${file}`)
+    } catch (error) {
+      console.error(`Failed to read tile manifest ${file}`, error)
+    }
+  }
+  return manifests
+}
+
+// width and height of a PNG, from its IHDR chunk right after the signature
+function readPngSize(file: string) {
+  const header = Buffer.alloc(24)
+  const fd = fs.openSync(file, "r")
+  try {
+    fs.readSync(fd, header, 0, 24, 0)
+  } finally {
+    fs.closeSync(fd)
+  }
+  if (header.toString("ascii", 12, 16) !== "IHDR") return null
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) }
+}
+
+/**
+ * Full-resolution size of a map image: from its tile manifest when it has
+ * one, otherwise read from the PNG itself. Null when neither is available.
+ */
+export function readMapImageSize(map: MapInfo, manifests = readTileManifests()) {
+  const manifest = manifests[map.id]
+  if (manifest) return { width: manifest.width, height: manifest.height }
+
+  const file = path.join(PUBLIC_DIR, map.src)
+  if (!fs.existsSync(file)) return null
+  try {
+    return readPngSize(file)
+  } catch (error) {
+    console.error(`Failed to read map image size ${file}`, error)
+    return null
+  }
+}
@@ -0,0 +1,55 @@
+// Map view state as URL search params, for shareable links:
+// /world-map?map=world-state&z=2&cx=0.6&cy=0.4&pin=<id>
+
+export type MapView = {
+  mapId?: string
+  pin?: string
+  z?: number // camera scale
+  cx?: number // normalized map point at the viewport center
+  cy?: number
+}
+
+type SearchParamsLike = Record<string, string | string[] | undefined>
+
+function first(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function finite(value: string | undefined, min: number, max: number) {
+  if (value === undefined || value.trim() === "") return undefined
+  const n = Number(value)
+  if (!Number.isFinite(n)) return undefined
+  return Math.min(max, Math.max(min, n))
+}
+
+/**
+ * Reads a MapView from page searchParams. Bad or missing values are left
+ * undefined so the map falls back to its defaults.
+ */
+export function parseMapView(params: SearchParamsLike): MapView {
+  return {
+    mapId: first(params.map) || undefined,
+    pin: first(params.pin) || undefined,
+    z: finite(first(params.z), 0, 100),
+    cx: finite(first(params.cx), 0, 1),
+    cy: finite(first(params.cy), 0, 1),
+  }
+}
+
+export function hasMapView(view: MapView) {
+  return Object.values(view).some((v) => v !== undefined)
+}
+
+/**
+ * The query string for a view, without the leading "?". `defaultMapId` is
+ * left out so links stay short on the page that already implies the map.
+ */
+export function mapViewToSearch(view: MapView, defaultMapId?: string) {
+  const params = new URLSearchParams()
+  if (view.mapId && view.mapId !== defaultMapId) params.set("map", view.mapId)
+  if (view.z !== undefined) params.set("z", view.z.toFixed(2))
+  if (view.cx !== undefined) params.set("cx", view.cx.toFixed(4))
+  if (view.cy !== undefined) params.set("cy", view.cy.toFixed(4))
+  if (view.pin) params.set("pin", view.pin)
+  return params.toString()
+}
@@ -8,13 +8,19 @@ const FILE_MAPS = {
     biome: "/maps/world-map-biome.png",
 } as const
 
+// private map scale: full-resolution map image pixels per unit of distance.
+// All variants are renders of the same world, so they share one calibration.
+// A tiled map is viewed at its base level; see viewerMapScale in lib/travel.ts.
+// Recalibrate by measuring a known distance in image pixels, e.g. Roanthur -> Dislow Garrison.
+const WORLD_SCALE = { pixelsPerUnit: 4, unit: "league", unitPlural: "leagues" } as const
+
 // also private constant array for map info
 // in case we want to add more maps later
 const MAPS = [
-    { id:'world-current', label: "Current Map", src: FILE_MAPS.current },
-    { id:'world-state', label: "State Map", src: FILE_MAPS.state },
-    { id:'world-height', label: "Height Map", src: FILE_MAPS.height },
-    { id:'world-biome', label: "Biome Map", src: FILE_MAPS.biome },
+    { id:'world-current', label: "Current Map", src: FILE_MAPS.current, scale: WORLD_SCALE },
+    { id:'world-state', label: "State Map", src: FILE_MAPS.state, scale: WORLD_SCALE },
+    { id:'world-height', label: "Height Map", src: FILE_MAPS.height, scale: WORLD_SCALE },
+    { id:'world-biome', label: "Biome Map", src: FILE_MAPS.biome, scale: WORLD_SCALE },
 ] as const
 
 // maps made public
@@ -54,3 +60,17 @@ export function getMapById(id: string): MapInfo | null {
  */
 export type MapInfo = (typeof MAPS)[number]
 
+// Type for a map's distance calibration
+/**
+ * pixelsPerUnit is in full-resolution image pixels.
+ *
+ * example:
+ * import { polylineLength, viewerMapScale } from 'lib/travel';
+ *
+ * const leagues = polylineLength(points, imgSize, viewerMapScale(activeMap.scale, activeTiles));
+ */
+export type MapScale = {
+    pixelsPerUnit: number
+    unit: string
+    unitPlural: string
+}
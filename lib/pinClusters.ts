@@ -0,0 +1,92 @@
+import type { WorldMapPin } from "@/lib/worldMapPins"
+
+export type PinBounds = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type PinCluster = {
+  id: string
+  x: number // normalized centroid
+  y: number
+  pins: WorldMapPin[]
+  bounds: PinBounds // normalized
+}
+
+/**
+ * Groups pins that would be drawn within `radiusPx` of each other at the given
+ * zoom. Works in scaled map pixels rather than screen pixels, so the result
+ * does not depend on tx/ty and only needs recomputing when the scale changes,
+ * not on every pan frame.
+ *
+ * Pins are bucketed into a grid of radius-sized cells; each unclaimed pin
+ * starts a cluster and claims unclaimed pins within the radius from the 3x3
+ * neighbouring cells. That keeps it close to O(n) for thousands of pins.
+ */
+export function clusterPins(
+  pins: WorldMapPin[],
+  size: { w: number; h: number },
+  scale: number,
+  radiusPx: number,
+): PinCluster[] {
+  const cellSize = radiusPx
+  const points = pins.map((pin) => ({ pin, px: pin.x * size.w * scale, py: pin.y * size.h * scale }))
+  const grid = new Map<string, number[]>()
+
+  points.forEach((p, i) => {
+    const key = `${Math.floor(p.px / cellSize)}:${Math.floor(p.py / cellSize)}`
+    const cell = grid.get(key)
+    if (cell) cell.push(i)
+    else grid.set(key, [i])
+  })
+
+  const claimed = new Uint8Array(points.length)
+  const clusters: PinCluster[] = []
+  const radiusSq = radiusPx * radiusPx
+
+  for (let i = 0; i < points.length; i++) {
+    if (claimed[i]) continue
+    claimed[i] = 1
+    const seed = points[i]
+    const members = [seed]
+
+    const cx = Math.floor(seed.px / cellSize)
+    const cy = Math.floor(seed.py / cellSize)
+    for (let gx = cx - 1; gx <= cx + 1; gx++) {
+      for (let gy = cy - 1; gy <= cy + 1; gy++) {
+        for (const j of grid.get(`${gx}:${gy}`) ?? []) {
+          if (claimed[j]) continue
+          const dx = points[j].px - seed.px
+          const dy = points[j].py - seed.py
+          if (dx * dx + dy * dy > radiusSq) continue
+          claimed[j] = 1
+          members.push(points[j])
+        }
+      }
+    }
+
+    const bounds: PinBounds = { minX: 1, minY: 1, maxX: 0, maxY: 0 }
+    let sumX = 0
+    let sumY = 0
+    for (const { pin } of members) {
+      sumX += pin.x
+      sumY += pin.y
+      bounds.minX = Math.min(bounds.minX, pin.x)
+      bounds.minY = Math.min(bounds.minY, pin.y)
+      bounds.maxX = Math.max(bounds.maxX, pin.x)
+      bounds.maxY = Math.max(bounds.maxY, pin.y)
+    }
+
+    clusters.push({
+      id: members.length === 1 ? seed.pin.id : `cluster:${seed.pin.id}:${members.length}`,
+      x: sumX / members.length,
+      y: sumY / members.length,
+      pins: members.map((m) => m.pin),
+      bounds,
+    })
+  }
+
+  return clusters
+}
@@ -0,0 +1,219 @@
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { samePin } from "@/lib/pinSync"
+
+// Pins as GeoJSON and CSV files, for the export/import endpoints
+// (src/app/api/world-map-pins/export and /import).
+
+export type PinFileFormat = "geojson" | "csv"
+export type PinImportMode = "merge" | "replace"
+
+/**
+ * The CRS named in exported GeoJSON. Pins don't have geographic coordinates:
+ * a Point's [x, y] is a position on the map image as a fraction of its width
+ * and height, origin at the top-left corner and y growing downward. Every map
+ * is a render of the same world, so one position fits all of them; multiply
+ * by an image's pixel size to get pixels. Documented for editors in
+ * content/README.md and the import dialog.
+ */
+export const PIN_CRS_NAME = "urn:eonia-atlas:crs:map-image-normalized"
+
+export const PIN_FILE_TYPES: Record<PinFileFormat, { extension: string; contentType: string }> = {
+  geojson: { extension: "geojson", contentType: "application/geo+json; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+}
+
+export function isPinFileFormat(value: unknown): value is PinFileFormat {
+  return value === "geojson" || value === "csv"
+}
+
+// Pin-shaped objects to run through validatePins, or why the file can't be read.
+export type ParsedPinFile = { items: unknown[] } | { error: string }
+
+// every optional field, in the order CSV columns and GeoJSON properties are written
+const TEXT_FIELDS = ["subtitle", "description", "kind", "mdxCategory", "mdxSlug"] as const
+const CSV_COLUMNS = ["id", "x", "y", "title", ...TEXT_FIELDS, "maps"] as const
+// maps share one CSV cell
+const MAPS_SEPARATOR = ";"
+// plain decimals only: no hex, exponents, Infinity or NaN
+const DECIMAL = /^[+-]?(\d+\.?\d*|\.\d+)$/
+
+export function pinsToGeoJSON(pins: WorldMapPin[]) {
+  return {
+    type: "FeatureCollection",
+    crs: { type: "name", properties: { name: PIN_CRS_NAME } },
+    features: pins.map((pin) => ({
+      type: "Feature",
+      id: pin.id,
+      geometry: { type: "Point", coordinates: [pin.x, pin.y] },
+      properties: {
+        title: pin.title,
+        ...Object.fromEntries(TEXT_FIELDS.flatMap((key) => (pin[key] ? [[key, pin[key]]] : []))),
+        ...(pin.maps ? { maps: pin.maps } : {}),
+      },
+    })),
+  }
+}
+
+/**
+ * Features with a Point geometry, from a FeatureCollection or a single
+ * Feature. A file naming any other CRS is refused rather than read as if its
+ * coordinates were map-image fractions.
+ */
+export function parsePinsGeoJSON(text: string): ParsedPinFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { error: "The file isn't valid JSON." }
+  }
+  if (!json || typeof json !== "object") return { error: "Expected a GeoJSON FeatureCollection." }
+
+  const root = json as { type?: unknown; features?: unknown; crs?: { properties?: { name?: unknown } } }
+  const crsName = root.crs?.properties?.name
+  if (crsName !== undefined && crsName !== PIN_CRS_NAME) {
+    return { error: `Unsupported CRS ${String(crsName)}; coordinates must be in ${PIN_CRS_NAME}.` }
+  }
+  const features = root.type === "Feature" ? [root] : root.type === "FeatureCollection" ? root.features : null
+  if (!Array.isArray(features)) return { error: "Expected a GeoJSON FeatureCollection." }
+
+  const items: unknown[] = []
+  for (const [i, feature] of features.entries()) {
+    const { id, geometry, properties } = (feature ?? {}) as {
+      id?: unknown
+      geometry?: { type?: unknown; coordinates?: unknown }
+      properties?: Record<string, unknown> | null
+    }
+    const coordinates = geometry?.coordinates
+    if (geometry?.type !== "Point" || !Array.isArray(coordinates) || coordinates.length < 2) {
+      return { error: `Feature ${i + 1} isn't a Point.` }
+    }
+    const [x, y] = coordinates
+    if (!isFraction(x) || !isFraction(y)) {
+      return { error: `Feature ${i + 1}: coordinates must be between 0 and 1.` }
+    }
+    items.push({ ...properties, id: id ?? properties?.id, x, y })
+  }
+  return { items }
+}
+
+function isFraction(value: unknown) {
+  return typeof value === "number" && value >= 0 && value <= 1
+}
+
+export function pinsToCSV(pins: WorldMapPin[]) {
+  const rows = pins.map((pin) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === "maps") return pin.maps?.join(MAPS_SEPARATOR) ?? ""
+      return String(pin[column] ?? "")
+    }),
+  )
+  return [CSV_COLUMNS, ...rows].map((cells) => cells.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * One pin per row after a header row naming the columns (any order; unknown
+ * columns are ignored). x and y are map-image fractions as in PIN_CRS_NAME,
+ * written as plain decimals. Empty cells leave a field unset, and an empty maps
+ * cell puts the pin on every map, the same as exported.
+ */
+export function parsePinsCSV(text: string): ParsedPinFile {
+  const [header, ...rows] = readCSVRows(text.replace(/^\uFEFF/, ""))
+  if (!header) return { error: "The file is empty." }
+
+  const columns = header.map((name) => name.trim())
+  for (const required of ["id", "x", "y", "title"]) {
+    if (!columns.includes(required)) return { error: `Missing the "${required}" column.` }
+  }
+
+  const items: unknown[] = []
+  for (const [i, row] of rows.entries()) {
+    if (row.every((cell) => !cell.trim())) continue
+    const item: Record<string, unknown> = {}
+    for (const [c, column] of columns.entries()) {
+      const cell = row[c] ?? ""
+      if (column === "x" || column === "y") {
+        const value = cell.trim()
+        if (!DECIMAL.test(value) || !isFraction(Number(value))) {
+          return {
+            error: `Row ${i + 1}, column ${c + 1} (${column}): "${value}" isn't a decimal number between 0 and 1.`,
+          }
+        }
+        item[column] = Number(value)
+      } else if (column === "maps") {
+        const maps = cell.split(MAPS_SEPARATOR).map((id) => id.trim()).filter(Boolean)
+        item.maps = maps.length ? maps : undefined
+      } else if ((CSV_COLUMNS as readonly string[]).includes(column)) item[column] = cell || undefined
+    }
+    items.push(item)
+  }
+  return { items }
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks
+function readCSVRows(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else cell += ch
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+export function parsePinFile(format: PinFileFormat, text: string) {
+  return format === "geojson" ? parsePinsGeoJSON(text) : parsePinsCSV(text)
+}
+
+export type PinImportDiff = {
+  pins: WorldMapPin[] // the store after the import
+  added: WorldMapPin[]
+  changed: Array<{ before: WorldMapPin; after: WorldMapPin }>
+  removed: WorldMapPin[]
+}
+
+/**
+ * What importing `incoming` does to `current`. "merge" inserts or replaces
+ * pins by id and keeps the rest, with new pins first like the editor adds
+ * them; "replace" makes the file the whole store.
+ */
+export function diffPinImport(current: WorldMapPin[], incoming: WorldMapPin[], mode: PinImportMode): PinImportDiff {
+  const currentById = new Map(current.map((p) => [p.id, p]))
+  const incomingById = new Map(incoming.map((p) => [p.id, p]))
+
+  const added = incoming.filter((p) => !currentById.has(p.id))
+  const changed = incoming.flatMap((after) => {
+    const before = currentById.get(after.id)
+    return before && !samePin(before, after) ? [{ before, after }] : []
+  })
+  const removed = mode === "replace" ? current.filter((p) => !incomingById.has(p.id)) : []
+  const pins = mode === "replace" ? incoming : [...added, ...current.map((p) => incomingById.get(p.id) ?? p)]
+
+  return { pins, added, changed, removed }
+}
@@ -0,0 +1,115 @@
+import type { WorldMapPin } from "@/lib/worldMapPins"
+import { samePin } from "@/lib/pinSync"
+
+// Undo/redo for pin edits on the world map. Every command stores the pin
+// before and after (null when it didn't or doesn't exist), so undoing and
+// redoing are the same operation in opposite directions.
+
+export type PinCommandKind = "create" | "move" | "edit" | "delete"
+
+export type PinCommand = {
+  kind: PinCommandKind
+  pinId: string
+  before: WorldMapPin | null
+  after: WorldMapPin | null
+  index: number // position in the pin list, so an undone delete goes back where it was
+  time: number // ms, for coalescing
+}
+
+export type PinHistory = {
+  past: PinCommand[]
+  future: PinCommand[]
+}
+
+export const EMPTY_PIN_HISTORY: PinHistory = { past: [], future: [] }
+
+// oldest commands are dropped past this
+const HISTORY_LIMIT = 100
+// typing in a field or nudging with the keyboard is one step while it keeps going
+const COALESCE_MS = 1000
+
+const COMMAND_LABELS: Record<PinCommandKind, string> = {
+  create: "create",
+  move: "move",
+  edit: "edit",
+  delete: "delete",
+}
+
+// e.g. `move "Southern Dislow Towers"`, for undo/redo buttons and messages
+export function describePinCommand(command: PinCommand) {
+  return `${COMMAND_LABELS[command.kind]} “${(command.after ?? command.before)?.title ?? "pin"}”`
+}
+
+function changedKeys(command: PinCommand) {
+  const before = (command.before ?? {}) as Record<string, unknown>
+  const after = (command.after ?? {}) as Record<string, unknown>
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k])).sort().join(",")
+}
+
+/**
+ * Adds a command and clears the redo stack. A move or edit of the same pin
+ * (and, for edits, the same fields) right after the previous one is merged
+ * into it.
+ */
+export function recordPinCommand(history: PinHistory, command: PinCommand): PinHistory {
+  const last = history.past[history.past.length - 1]
+  const coalesce =
+    last &&
+    (command.kind === "move" || command.kind === "edit") &&
+    last.kind === command.kind &&
+    last.pinId === command.pinId &&
+    command.time - last.time < COALESCE_MS &&
+    (command.kind === "move" || changedKeys(last) === changedKeys(command))
+
+  const past = coalesce
+    ? [...history.past.slice(0, -1), { ...last, after: command.after, time: command.time }]
+    : [...history.past, command].slice(-HISTORY_LIMIT)
+  return { past, future: [] }
+}
+
+/**
+ * Puts `pin` in place of the pin with `pinId` (removing it when null); a pin
+ * that isn't in the list is inserted at `index`.
+ */
+export function applyPinChange(pins: WorldMapPin[], pinId: string, pin: WorldMapPin | null, index: number) {
+  const at = pins.findIndex((p) => p.id === pinId)
+  if (at >= 0) {
+    return pin ? pins.map((p, i) => (i === at ? pin : p)) : pins.filter((_, i) => i !== at)
+  }
+  if (!pin) return pins
+  const next = [...pins]
+  next.splice(Math.min(Math.max(0, index), next.length), 0, pin)
+  return next
+}
+
+export function undoPinCommand(pins: WorldMapPin[], history: PinHistory) {
+  const command = history.past[history.past.length - 1]
+  if (!command) return null
+  return {
+    command,
+    pins: applyPinChange(pins, command.pinId, command.before, command.index),
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+  }
+}
+
+export function redoPinCommand(pins: WorldMapPin[], history: PinHistory) {
+  const command = history.future[0]
+  if (!command) return null
+  return {
+    command,
+    pins: applyPinChange(pins, command.pinId, command.after, command.index),
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+  }
+}
+
+// Pins created, changed or deleted since the last save, on any map.
+export function countUnsavedPins(pins: WorldMapPin[], saved: WorldMapPin[]) {
+  const savedById = new Map(saved.map((p) => [p.id, p]))
+  let count = 0
+  for (const pin of pins) {
+    if (!samePin(savedById.get(pin.id), pin)) count++
+    savedById.delete(pin.id)
+  }
+  return count + savedById.size
+}
@@ -0,0 +1,33 @@
+// Pin categories for the world map: icon, color and legend label.
+// Add an entry here to make a new kind available in the pin editor and legend.
+
+// private constant array for pin kinds
+const KINDS = [
+  { id: "point", label: "Point of interest", icon: "✦", color: "#e5e7eb" },
+  { id: "city", label: "City", icon: "🏛", color: "#38bdf8" },
+  { id: "fortress", label: "Fortress", icon: "🛡", color: "#f59e0b" },
+  { id: "academy", label: "Academy", icon: "📜", color: "#a78bfa" },
+  { id: "ruin", label: "Ruin", icon: "🏚", color: "#a8a29e" },
+  { id: "battle", label: "Battle site", icon: "⚔", color: "#ef4444" },
+  { id: "landmark", label: "Landmark", icon: "⛰", color: "#34d399" },
+] as const
+
+// pin kinds made public
+export const PIN_KINDS = KINDS
+
+// used for pins without a kind, or with one that was removed from the list
+export const DEFAULT_PIN_KIND = KINDS[0]
+
+export type PinKind = (typeof KINDS)[number]
+
+export function isPinKind(id: unknown): id is PinKind["id"] {
+  return typeof id === "string" && KINDS.some((k) => k.id === id)
+}
+
+/**
+ * @param id - The pin's `kind`, if any.
+ * @returns The matching PinKind, falling back to DEFAULT_PIN_KIND.
+ */
+export function getPinKind(id?: string): PinKind {
+  return KINDS.find((k) => k.id === id) ?? DEFAULT_PIN_KIND
+}
@@ -0,0 +1,125 @@
+import type { WorldMapPin } from "@/lib/worldMapPins"
+
+// Saving pin edits through the per-pin API (src/app/api/world-map-pins/[id])
+// and merging them with someone else's when the store moved on (a 409).
+
+export type PinSaveOp =
+  | { type: "create"; pin: WorldMapPin }
+  | { type: "update"; pin: WorldMapPin }
+  // deleting a pin that is also on other maps only takes it off this one
+  | { type: "unlist"; id: string; maps: string[] }
+  | { type: "delete"; id: string }
+
+// the store revision as the API's ETag, quotes included: "pins-12"
+export function pinsETag(revision: number) {
+  return `"pins-${revision}"`
+}
+
+// key order varies between pins edited here and pins the server returns
+function pinSignature(pin: WorldMapPin) {
+  return JSON.stringify(pin, Object.keys(pin).sort())
+}
+
+export function samePin(a: WorldMapPin | undefined, b: WorldMapPin | undefined) {
+  if (!a || !b) return a === b
+  return pinSignature(a) === pinSignature(b)
+}
+
+/**
+ * What deleting `pin` while `mapId` is shown leaves: the pin on its other maps
+ * (every map when it has no list), or null once it is on no map at all.
+ */
+export function removePinFromMap(pin: WorldMapPin, mapId: string, allMapIds: readonly string[]): WorldMapPin | null {
+  const maps = (pin.maps ?? allMapIds).filter((id) => id !== mapId)
+  return maps.length ? { ...pin, maps } : null
+}
+
+/**
+ * The requests that turn `saved` (the pins as last stored) into `current`.
+ * A saved pin on `mapId` that is missing from `current` is taken off that map,
+ * like the per-map bulk save did, and deleted once it is on no map at all.
+ * Missing pins that aren't on `mapId` are left for a save on their own map, so
+ * a save here never takes a pin off maps it wasn't edited on.
+ */
+export function diffPins(
+  saved: WorldMapPin[],
+  current: WorldMapPin[],
+  mapId: string,
+  allMapIds: readonly string[],
+): PinSaveOp[] {
+  const savedById = new Map(saved.map((p) => [p.id, p]))
+  const currentIds = new Set(current.map((p) => p.id))
+  const ops: PinSaveOp[] = []
+
+  for (const pin of current) {
+    const before = savedById.get(pin.id)
+    if (!before) ops.push({ type: "create", pin })
+    else if (!samePin(before, pin)) ops.push({ type: "update", pin })
+  }
+  for (const pin of saved) {
+    if (currentIds.has(pin.id) || !(pin.maps ?? allMapIds).includes(mapId)) continue
+    const rest = removePinFromMap(pin, mapId, allMapIds)
+    ops.push(rest?.maps ? { type: "unlist", id: pin.id, maps: rest.maps } : { type: "delete", id: pin.id })
+  }
+  return ops
+}
+
+export function pinSaveRequest(op: PinSaveOp): { url: string; method: string; body?: unknown } {
+  switch (op.type) {
+    case "create":
+      return { url: "/api/world-map-pins", method: "POST", body: { pin: op.pin } }
+    case "update":
+      return { url: `/api/world-map-pins/${encodeURIComponent(op.pin.id)}`, method: "PUT", body: { pin: op.pin } }
+    case "unlist":
+      return { url: `/api/world-map-pins/${encodeURIComponent(op.id)}`, method: "PATCH", body: { pin: { maps: op.maps } } }
+    case "delete":
+      return { url: `/api/world-map-pins/${encodeURIComponent(op.id)}`, method: "DELETE" }
+  }
+}
+
+/**
+ * `saved` after the server accepted `op`; `stored` is the pin it returned
+ * (nothing for a delete).
+ */
+export function applyPinSaveOp(saved: WorldMapPin[], op: PinSaveOp, stored?: WorldMapPin): WorldMapPin[] {
+  if (op.type === "delete") return saved.filter((p) => p.id !== op.id)
+  if (!stored) return saved
+  if (op.type === "create") return [stored, ...saved]
+  return saved.map((p) => (p.id === stored.id ? stored : p))
+}
+
+/**
+ * Three-way merge of pin lists: `base` is what both sides started from, `mine`
+ * the local edits, `theirs` the store now. Pins changed on one side only take
+ * that side; pins changed differently on both are conflicts, listed by id.
+ */
+export function mergePins(base: WorldMapPin[], mine: WorldMapPin[], theirs: WorldMapPin[]) {
+  const baseById = new Map(base.map((p) => [p.id, p]))
+  const mineById = new Map(mine.map((p) => [p.id, p]))
+  const theirsById = new Map(theirs.map((p) => [p.id, p]))
+  const ids = new Set([...mine.map((p) => p.id), ...theirs.map((p) => p.id)])
+
+  const resolved = new Map<string, { mine?: WorldMapPin; theirs?: WorldMapPin; conflict: boolean }>()
+  for (const id of ids) {
+    const b = baseById.get(id)
+    const m = mineById.get(id)
+    const t = theirsById.get(id)
+    const mineChanged = !samePin(b, m)
+    const theirsChanged = !samePin(b, t)
+    const conflict = mineChanged && theirsChanged && !samePin(m, t)
+    resolved.set(id, { mine: mineChanged ? m : t, theirs: theirsChanged ? t : m, conflict })
+  }
+
+  const conflicts = [...resolved.entries()].filter(([, r]) => r.conflict).map(([id]) => id)
+
+  // their order, with pins only I have in front, matching how the editor adds them
+  const order = [...mine.filter((p) => !theirsById.has(p.id)).map((p) => p.id), ...theirs.map((p) => p.id)]
+  const build = (prefer: "mine" | "theirs") =>
+    order.flatMap((id) => {
+      const r = resolved.get(id)
+      const pin = r?.conflict ? r[prefer] : r?.mine
+      return pin ? [pin] : []
+    })
+
+  return { conflicts, keepMine: build("mine"), keepTheirs: build("theirs") }
+}
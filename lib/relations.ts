@@ -0,0 +1,74 @@
+import { getAllEntries, type ContentEntry } from "@/lib/content"
+import { isEntryType, type EntryType } from "@/lib/contentSchema"
+import { entryHref, resolveWikiTarget } from "@/lib/wikiLinks"
+
+// Entry types that always appear on the graph; other entries only when related.
+const GRAPH_TYPES: EntryType[] = ["character", "faction", "location"]
+
+export type GraphNode = {
+  id: string // "category/slug"
+  title: string
+  kind: EntryType | "other"
+  href: string
+}
+
+export type GraphEdge = {
+  source: string // node id of the entry that declares the relation
+  target: string
+  type: string
+}
+
+export type RelationGraph = {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+function nodeId(entry: { category: string; slug: string }) {
+  return `${entry.category}/${entry.slug}`
+}
+
+function toNode(entry: ContentEntry): GraphNode {
+  const { type, title } = entry.frontmatter
+  return { id: nodeId(entry), title, kind: isEntryType(type) ? type : "other", href: entryHref(entry) }
+}
+
+/**
+ * The full relationship graph. Relation targets are resolved like wiki links;
+ * targets that don't match an entry are left out.
+ */
+export function buildRelationGraph(entries: ContentEntry[] = getAllEntries()): RelationGraph {
+  const byId = new Map(entries.map((e) => [nodeId(e), e]))
+  const edges: GraphEdge[] = []
+  const seen = new Set<string>()
+
+  for (const entry of entries) {
+    for (const relation of entry.frontmatter.relations ?? []) {
+      const hit = resolveWikiTarget(relation.target, entries)
+      if (!hit) continue
+      const edge = { source: nodeId(entry), target: nodeId(hit), type: relation.type }
+      const key = `${edge.source}|${edge.target}|${edge.type}`
+      if (edge.source === edge.target || seen.has(key)) continue
+      seen.add(key)
+      edges.push(edge)
+    }
+  }
+
+  const related = new Set(edges.flatMap((e) => [e.source, e.target]))
+  const nodes = Array.from(byId.values())
+    .filter((e) => related.has(nodeId(e)) || GRAPH_TYPES.includes(e.frontmatter.type as EntryType))
+    .map(toNode)
+
+  return { nodes, edges }
+}
+
+/**
+ * The entry plus everything it is directly related to, in either direction.
+ */
+export function getEntryGraph(category: string, slug: string, graph: RelationGraph = buildRelationGraph()): RelationGraph {
+  const focus = `${category}/${slug}`
+  const edges = graph.edges.filter((e) => e.source === focus || e.target === focus)
+  if (!edges.length) return { nodes: [], edges: [] }
+
+  const ids = new Set([focus, ...edges.flatMap((e) => [e.source, e.target])])
+  return { nodes: graph.nodes.filter((n) => ids.has(n.id)), edges }
+}
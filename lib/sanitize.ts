@@ -0,0 +1,207 @@
+import sanitize from "sanitize-html"
+
+// Tags that rendered markdown and admin-written content may contain.
+// Anything else is removed; script-like tags are dropped together with their contents.
+export const ALLOWED_TAGS = [
+  "a", "abbr", "b", "blockquote", "br", "code", "del", "details", "div", "em",
+  "figcaption", "figure", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "i", "img",
+  "kbd", "li", "mark", "ol", "p", "pre", "s", "small", "span", "strong", "sub",
+  "summary", "sup", "table", "tbody", "td", "th", "thead", "tr", "u", "ul",
+]
+
+const DROP_WITH_CONTENTS = ["script", "style", "iframe", "object", "embed", "noscript", "template", "textarea", "select", "option"]
+
+// Attribute allowlist per tag; "*" applies to every allowed tag.
+export const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  "*": ["class", "title"],
+  a: ["href", "rel", "target"],
+  img: ["src", "alt", "width", "height"],
+  ol: ["start"],
+  td: ["colspan", "rowspan", "align"],
+  th: ["colspan", "rowspan", "align"],
+}
+
+const ALLOWED_SCHEMES = ["http", "https", "mailto"]
+
+export const EXTERNAL_LINK_REL = "noopener noreferrer nofollow"
+
+/**
+ * True for relative URLs and http(s)/mailto. Rejects javascript:, data:,
+ * vbscript: and friends, including obfuscated forms such as "java\tscript:"
+ * or "&#106;avascript:".
+ */
+export function isSafeUrl(url: string) {
+  const decoded = url
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ":")
+    // browsers ignore control characters and whitespace inside the scheme
+    .replace(/[\u0000- \u007f-\u009f]/g, "")
+
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(decoded)
+  if (!scheme) return true
+  return ALLOWED_SCHEMES.includes(scheme[1].toLowerCase())
+}
+
+export function isExternalUrl(url: string) {
+  return /^(https?:)?\/\//i.test(url.trim())
+}
+
+export function attributesAllowedFor(tag: string) {
+  return [...(ALLOWED_ATTRIBUTES["*"] ?? []), ...(ALLOWED_ATTRIBUTES[tag] ?? [])]
+}
+
+/**
+ * Sanitizes an HTML string against the allowlist above. Use this for anything
+ * that ends up in dangerouslySetInnerHTML.
+ */
+export function sanitizeHtml(html: string): string {
+  return sanitize(html, {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: ALLOWED_ATTRIBUTES,
+    allowedSchemes: ALLOWED_SCHEMES,
+    allowedSchemesByTag: { img: ["http", "https"] },
+    allowProtocolRelative: true,
+    disallowedTagsMode: "discard",
+    nonTextTags: DROP_WITH_CONTENTS,
+    // an image without a usable src is just a broken box
+    exclusiveFilter: (frame) => frame.tag === "img" && (!frame.attribs.src || !isSafeUrl(frame.attribs.src)),
+    transformTags: {
+      a: (tagName, attribs) => {
+        const { href, ...rest } = attribs
+        // unsafe links keep their text but lose the href
+        if (!href || !isSafeUrl(href)) return { tagName, attribs: rest }
+        if (!isExternalUrl(href)) return { tagName, attribs }
+        // external links always open in a new tab without access to this window
+        return { tagName, attribs: { ...attribs, rel: EXTERNAL_LINK_REL, target: "_blank" } }
+      },
+    },
+  })
+}
+
+// --- MDX -------------------------------------------------------------------
+// MDX is compiled to React elements rather than an HTML string, so the same
+// allowlist is applied to the hast tree instead. Plain markdown produces
+// `element` nodes; JSX written inside the .mdx file produces mdxJsx nodes.
+
+type HastAttribute = { type: string; name?: string; value?: unknown }
+
+type HastNode = {
+  type: string
+  tagName?: string
+  name?: string | null
+  properties?: Record<string, unknown>
+  attributes?: HastAttribute[]
+  children?: HastNode[]
+}
+
+// HTML attribute names -> hast / React property names where they differ
+const PROPERTY_NAMES: Record<string, string> = {
+  class: "className",
+  colspan: "colSpan",
+  rowspan: "rowSpan",
+}
+
+const URL_PROPERTIES = ["href", "src"]
+
+function allowedProperties(tag: string) {
+  return new Set(attributesAllowedFor(tag).map((name) => PROPERTY_NAMES[name] ?? name))
+}
+
+function isJsxNode(node: HastNode) {
+  return node.type === "mdxJsxFlowElement" || node.type === "mdxJsxTextElement"
+}
+
+function sanitizeElementProperties(node: HastNode, tag: string) {
+  const allowed = allowedProperties(tag)
+  const properties: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(node.properties ?? {})) {
+    if (!allowed.has(key)) continue
+    if (URL_PROPERTIES.includes(key) && (typeof value !== "string" || !isSafeUrl(value))) continue
+    properties[key] = value
+  }
+
+  if (tag === "a" && typeof properties.href === "string" && isExternalUrl(properties.href)) {
+    properties.rel = EXTERNAL_LINK_REL.split(" ")
+    properties.target = "_blank"
+  }
+  node.properties = properties
+}
+
+function sanitizeJsxAttributes(node: HastNode, tag: string) {
+  const allowed = allowedProperties(tag)
+  // only literal string (or boolean) attributes survive on plain HTML tags
+  const attributes = (node.attributes ?? []).filter(
+    (attr) =>
+      attr.type === "mdxJsxAttribute" &&
+      Boolean(attr.name && allowed.has(attr.name)) &&
+      (attr.value === null || attr.value === undefined || typeof attr.value === "string") &&
+      !(URL_PROPERTIES.includes(attr.name ?? "") && (typeof attr.value !== "string" || !isSafeUrl(attr.value))),
+  )
+
+  const href = attributes.find((attr) => attr.name === "href")?.value
+  if (tag === "a" && typeof href === "string" && isExternalUrl(href)) {
+    node.attributes = [
+      ...attributes.filter((attr) => attr.name !== "rel" && attr.name !== "target"),
+      { type: "mdxJsxAttribute", name: "rel", value: EXTERNAL_LINK_REL },
+      { type: "mdxJsxAttribute", name: "target", value: "_blank" },
+    ]
+    return
+  }
+  node.attributes = attributes
+}
+
+function sanitizeChildren(parent: HastNode, components: Set<string>) {
+  if (!parent.children) return
+  const children: HastNode[] = []
+
+  for (const child of parent.children) {
+    const jsx = isJsxNode(child)
+    const tag = child.type === "element" ? child.tagName : jsx ? child.name : undefined
+
+    // text, comments, fragments and anything else without a tag name
+    if (!tag) {
+      sanitizeChildren(child, components)
+      children.push(child)
+      continue
+    }
+
+    // library components handle their own props; anything else capitalized
+    // (or a member expression like motion.div) is dropped
+    if (jsx && /^[A-Z]|\./.test(tag)) {
+      if (!components.has(tag)) continue
+      sanitizeChildren(child, components)
+      children.push(child)
+      continue
+    }
+
+    const name = tag.toLowerCase()
+    if (DROP_WITH_CONTENTS.includes(name)) continue
+
+    sanitizeChildren(child, components)
+    if (!ALLOWED_TAGS.includes(name)) {
+      // unknown tag: keep its (already sanitized) contents
+      children.push(...(child.children ?? []))
+      continue
+    }
+
+    if (jsx) sanitizeJsxAttributes(child, name)
+    else sanitizeElementProperties(child, name)
+    children.push(child)
+  }
+
+  parent.children = children
+}
+
+/**
+ * Rehype plugin for compileMDX: applies ALLOWED_TAGS / ALLOWED_ATTRIBUTES and
+ * the URL checks to the compiled tree. `components` are the capitalized
+ * component names that are allowed through untouched.
+ */
+export function rehypeSanitizeMdx(options: { components?: string[] } = {}) {
+  const components = new Set(options.components ?? [])
+  return (tree: HastNode) => {
+    sanitizeChildren(tree, components)
+  }
+}
@@ -0,0 +1,239 @@
+import { getAllEntries, type ContentEntry } from "@/lib/content"
+
+export type SearchField = "title" | "tags" | "region" | "excerpt" | "body"
+
+// Title and tag hits outrank anything found only in the body text.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  tags: 6,
+  region: 3,
+  excerpt: 2,
+  body: 1,
+}
+
+const SNIPPET_RADIUS = 80
+const DEFAULT_LIMIT = 20
+
+type SearchDocument = {
+  category: string
+  slug: string
+  title: string
+  region?: string
+  tags: string[]
+  excerpt?: string
+  text: string
+  terms: Record<SearchField, string[]>
+}
+
+export type SearchSnippet = {
+  text: string
+  highlights: Array<[number, number]> // [start, end) offsets into text
+}
+
+export type SearchResult = {
+  category: string
+  slug: string
+  title: string
+  region?: string
+  tags: string[]
+  score: number
+  matchedFields: SearchField[]
+  snippet: SearchSnippet
+}
+
+function foldCase(value: string) {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+}
+
+// Letters and digits of any script, like tag slugs in lib/tags.ts: "Ærøskøbing"
+// stays one word ("ærøskøbing"), accents on Latin letters are folded away.
+export function tokenize(value: string): string[] {
+  return foldCase(value).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean)
+}
+
+// Strips markdown syntax so snippets read as plain prose.
+function toPlainText(markdown: string) {
+  return markdown
+    .replace(/^```[\s\S]*?^```/gm, " ")
+    .replace(/\[\[([^\[\]|]+)\|([^\[\]]+)\]\]/g, "$2")
+    .replace(/\[\[([^\[\]]+)\]\]/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function unique(values: string[]) {
+  return Array.from(new Set(values))
+}
+
+function toDocument(entry: ContentEntry): SearchDocument {
+  const { frontmatter } = entry
+  const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : []
+  const text = toPlainText(entry.content)
+
+  return {
+    category: entry.category,
+    slug: entry.slug,
+    title: frontmatter.title,
+    region: frontmatter.region,
+    tags,
+    excerpt: frontmatter.excerpt,
+    text,
+    terms: {
+      title: unique(tokenize(frontmatter.title ?? "")),
+      tags: unique(tags.flatMap(tokenize)),
+      region: unique(tokenize(frontmatter.region ?? "")),
+      excerpt: unique(tokenize(frontmatter.excerpt ?? "")),
+      body: unique(tokenize(text)),
+    },
+  }
+}
+
+/**
+ * Bounded Levenshtein distance. Returns maxEdits + 1 as soon as the distance
+ * is known to exceed maxEdits, which keeps typo matching cheap.
+ */
+function editDistance(a: string, b: string, maxEdits: number) {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      rowMin = Math.min(rowMin, row[j])
+    }
+    if (rowMin > maxEdits) return maxEdits + 1
+    prev = row
+  }
+  return prev[b.length]
+}
+
+function allowedEdits(term: string) {
+  if (term.length >= 8) return 2
+  if (term.length >= 4) return 1
+  return 0
+}
+
+/**
+ * How well a single query term matches a single indexed term, from 0 to 1.
+ * Exact > prefix > typo-tolerant (whole word) > typo-tolerant prefix.
+ */
+function termScore(queryTerm: string, docTerm: string) {
+  if (docTerm === queryTerm) return 1
+  if (queryTerm.length >= 2 && docTerm.startsWith(queryTerm)) return 0.8
+
+  const maxEdits = allowedEdits(queryTerm)
+  if (!maxEdits) return 0
+
+  const distance = editDistance(queryTerm, docTerm, maxEdits)
+  if (distance <= maxEdits) return distance === 1 ? 0.6 : 0.4
+
+  if (docTerm.length > queryTerm.length) {
+    const prefixDistance = editDistance(queryTerm, docTerm.slice(0, queryTerm.length), maxEdits)
+    if (prefixDistance <= maxEdits) return 0.3
+  }
+  return 0
+}
+
+function bestTermScore(queryTerm: string, terms: string[]) {
+  let best = 0
+  for (const term of terms) {
+    const score = termScore(queryTerm, term)
+    if (score > best) best = score
+    if (best === 1) break
+  }
+  return best
+}
+
+function buildSnippet(doc: SearchDocument, queryTerms: string[]): SearchSnippet {
+  const source = doc.text || doc.excerpt || ""
+  const words = Array.from(source.matchAll(/[\p{L}\p{N}]+/gu))
+  const hits = words.filter((w) => {
+    const [token] = tokenize(w[0])
+    return Boolean(token) && queryTerms.some((q) => termScore(q, token) > 0)
+  })
+
+  const first = hits[0]?.index ?? 0
+  let start = Math.max(0, first - SNIPPET_RADIUS)
+  let end = Math.min(source.length, first + SNIPPET_RADIUS)
+  // snap to word boundaries
+  if (start > 0) start = source.indexOf(" ", start) + 1 || start
+  if (end < source.length) {
+    const lastSpace = source.lastIndexOf(" ", end)
+    if (lastSpace > first) end = lastSpace
+  }
+
+  const prefix = start > 0 ? "… " : ""
+  const suffix = end < source.length ? " …" : ""
+  const text = `${prefix}${source.slice(start, end)}${suffix}`
+
+  const highlights: Array<[number, number]> = hits
+    .filter((w) => (w.index ?? 0) >= start && (w.index ?? 0) + w[0].length <= end)
+    .map((w) => {
+      const at = (w.index ?? 0) - start + prefix.length
+      return [at, at + w[0].length]
+    })
+
+  return { text, highlights }
+}
+
+/**
+ * Ranked full-text search over every lore entry.
+ * Every query term must match at least one field; a term's contribution is
+ * the best field weight times how closely it matched.
+ */
+export function searchEntries(
+  query: string,
+  options: { limit?: number; entries?: ContentEntry[] } = {},
+): SearchResult[] {
+  const queryTerms = unique(tokenize(query))
+  if (!queryTerms.length) return []
+
+  const docs = (options.entries ?? getAllEntries()).map(toDocument)
+  const fields = Object.keys(FIELD_WEIGHTS) as SearchField[]
+  const results: SearchResult[] = []
+
+  for (const doc of docs) {
+    let score = 0
+    let matchedAll = true
+    const matchedFields = new Set<SearchField>()
+
+    for (const queryTerm of queryTerms) {
+      let termBest = 0
+      for (const field of fields) {
+        const match = bestTermScore(queryTerm, doc.terms[field])
+        if (!match) continue
+        matchedFields.add(field)
+        termBest = Math.max(termBest, match * FIELD_WEIGHTS[field])
+      }
+      if (!termBest) {
+        matchedAll = false
+        break
+      }
+      score += termBest
+    }
+
+    if (!matchedAll) continue
+
+    results.push({
+      category: doc.category,
+      slug: doc.slug,
+      title: doc.title,
+      region: doc.region,
+      tags: doc.tags,
+      score: Math.round(score * 100) / 100,
+      matchedFields: fields.filter((f) => matchedFields.has(f)),
+      snippet: buildSnippet(doc, queryTerms),
+    })
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, options.limit ?? DEFAULT_LIMIT)
+}
@@ -0,0 +1,33 @@
+// Tag helpers shared by server pages and client components (no fs access here).
+
+/**
+ * URL-friendly form of a tag: "Field Work" and "field_work" both become "field-work".
+ * Letters and digits of any script are kept ("Ælfheim" becomes "ælfheim"), so
+ * hrefs need encoding (tagHref does it). Empty when nothing is left to link to.
+ */
+export function normalizeTag(tag: string) {
+  return tag
+    .normalize("NFC")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/gu, "-")
+    .replace(/[^\p{L}\p{M}\p{N}-]/gu, "")
+    .replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Key used to decide whether two tags are the same. Ignores case and spacing,
+ * so "Fieldwork", "field work" and "field-work" all match.
+ */
+export function tagKey(tag: string) {
+  return normalizeTag(tag).replace(/-/g, "")
+}
+
+export function tagHref(tag: string) {
+  return `/tags/${encodeURIComponent(normalizeTag(tag))}`
+}
+
+// Frontmatter tags worth a badge: those that still have a slug once normalized.
+export function linkableTags(tags: readonly string[]) {
+  return tags.filter((tag) => normalizeTag(String(tag)))
+}
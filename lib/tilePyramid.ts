@@ -0,0 +1,105 @@
+// Tile pyramids for deep-zoom map rendering.
+// scripts/build-map-tiles.ts writes them to public/tiles/<mapId>/; this file
+// holds the layout shared by the generator and the viewer.
+//
+// Level `maxLevel` is the full-resolution image; each level below halves it,
+// down to `minLevel`, the first level that fits in one tile. `baseLevel` is
+// the level the camera works in (its size is the viewer's imgSize) and is
+// also written out as preview.webp, the low-resolution placeholder.
+
+export type TileManifest = {
+  mapId: string
+  width: number // full resolution, pixels
+  height: number
+  tileSize: number
+  format: "webp"
+  minLevel: number
+  maxLevel: number
+  baseLevel: number
+  baseWidth: number
+  baseHeight: number
+}
+
+export type Tile = {
+  key: string
+  src: string
+  // position and size in base-level pixels (the camera's space)
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export const TILE_SIZE = 256
+// the base level is the largest one whose long side stays within this
+export const BASE_MAX_SIZE = 2048
+export const TILES_PUBLIC_DIR = "/tiles"
+
+export function levelSize(manifest: Pick<TileManifest, "width" | "height" | "maxLevel">, level: number) {
+  const factor = Math.pow(2, manifest.maxLevel - level)
+  return { w: Math.max(1, Math.ceil(manifest.width / factor)), h: Math.max(1, Math.ceil(manifest.height / factor)) }
+}
+
+export function tilesDir(mapId: string) {
+  return `${TILES_PUBLIC_DIR}/${mapId}`
+}
+
+export function tileUrl(manifest: TileManifest, level: number, col: number, row: number) {
+  return `${tilesDir(manifest.mapId)}/${level}/${col}_${row}.${manifest.format}`
+}
+
+export function previewUrl(manifest: TileManifest) {
+  return `${tilesDir(manifest.mapId)}/preview.${manifest.format}`
+}
+
+/**
+ * The coarsest level that still gives at least one image pixel per device
+ * pixel at this camera scale.
+ */
+export function levelForScale(manifest: TileManifest, cameraScale: number, pixelRatio = 1) {
+  const needed = (cameraScale * pixelRatio * manifest.baseWidth) / manifest.width // fraction of full resolution
+  const level = manifest.maxLevel + Math.ceil(Math.log2(Math.max(needed, 1e-6)))
+  return Math.min(manifest.maxLevel, Math.max(manifest.minLevel, level))
+}
+
+/**
+ * Tiles of one level that intersect the viewport, in base-level pixels so
+ * they can sit inside the same transformed layer as the map image.
+ */
+export function visibleTiles(
+  manifest: TileManifest,
+  level: number,
+  camera: { scale: number; tx: number; ty: number },
+  viewport: { width: number; height: number },
+): Tile[] {
+  const size = levelSize(manifest, level)
+  const toLevel = size.w / manifest.baseWidth // base px -> level px
+  const T = manifest.tileSize
+
+  const left = ((0 - camera.tx) / camera.scale) * toLevel
+  const top = ((0 - camera.ty) / camera.scale) * toLevel
+  const right = ((viewport.width - camera.tx) / camera.scale) * toLevel
+  const bottom = ((viewport.height - camera.ty) / camera.scale) * toLevel
+
+  const colMin = Math.max(0, Math.floor(left / T))
+  const rowMin = Math.max(0, Math.floor(top / T))
+  const colMax = Math.min(Math.ceil(size.w / T) - 1, Math.floor(right / T))
+  const rowMax = Math.min(Math.ceil(size.h / T) - 1, Math.floor(bottom / T))
+
+  const tiles: Tile[] = []
+  for (let row = rowMin; row <= rowMax; row++) {
+    for (let col = colMin; col <= colMax; col++) {
+      const w = Math.min(T, size.w - col * T)
+      const h = Math.min(T, size.h - row * T)
+      tiles.push({
+        key: `${level}/${col}_${row}`,
+        src: tileUrl(manifest, level, col, row),
+        x: (col * T) / toLevel,
+        y: (row * T) / toLevel,
+        w: w / toLevel,
+        h: h / toLevel,
+      })
+    }
+  }
+  return tiles
+}
@@ -0,0 +1,86 @@
+import { getAllEntries, type ContentEntry } from "@/lib/content"
+import { EONIA_ERAS, formatEoniaDate, parseEoniaDate, type Era } from "@/lib/calendar"
+import { entryHref, resolveWikiTarget } from "@/lib/wikiLinks"
+
+export type TimelineEvent = {
+  id: string // "category/slug#index"
+  label: string
+  start: number // absolute year, see EoniaDate
+  end?: number
+  date: string // formatted start date
+  endDate?: string
+  era: string
+  entry: { category: string; slug: string; title: string; href: string }
+  region?: string
+  faction?: { title: string; href?: string }
+}
+
+export type TimelineEra = Era & {
+  start: number
+  end: number
+}
+
+function factionFor(entry: ContentEntry, target: string | undefined, entries: ContentEntry[]) {
+  if (target) {
+    const hit = resolveWikiTarget(target, entries)
+    return hit ? { title: hit.title, href: entryHref(hit) } : { title: target }
+  }
+  // a faction's own events belong to it
+  if (entry.frontmatter.type === "faction") {
+    return { title: entry.frontmatter.title, href: entryHref(entry) }
+  }
+  return undefined
+}
+
+/**
+ * Every `dates` item across all entries, oldest first.
+ */
+export function getTimelineEvents(entries: ContentEntry[] = getAllEntries()): TimelineEvent[] {
+  const events: TimelineEvent[] = []
+
+  for (const entry of entries) {
+    const dates = entry.frontmatter.dates ?? []
+    dates.forEach((item, i) => {
+      const start = parseEoniaDate(item.date)
+      if (!start) return
+      const end = item.end ? parseEoniaDate(item.end) : null
+
+      events.push({
+        id: `${entry.category}/${entry.slug}#${i}`,
+        label: item.label,
+        start: start.absolute,
+        end: end?.absolute,
+        date: formatEoniaDate(start),
+        endDate: end ? formatEoniaDate(end) : undefined,
+        era: start.era,
+        entry: {
+          category: entry.category,
+          slug: entry.slug,
+          title: entry.frontmatter.title,
+          href: entryHref(entry),
+        },
+        region: item.region ?? entry.frontmatter.region,
+        faction: factionFor(entry, item.faction, entries),
+      })
+    })
+  }
+
+  return events.sort((a, b) => a.start - b.start || a.label.localeCompare(b.label))
+}
+
+/**
+ * Era bands with absolute start/end years. The last era is open-ended, so it
+ * runs to just past the latest event.
+ */
+export function getTimelineEras(events: TimelineEvent[]): TimelineEra[] {
+  const latest = events.reduce((max, e) => Math.max(max, e.end ?? e.start), 0)
+
+  return EONIA_ERAS.map((era, i) => {
+    const next = EONIA_ERAS[i + 1]
+    return {
+      ...era,
+      start: era.offset,
+      end: next ? next.offset : Math.max(era.offset + 100, Math.ceil(latest) + 50),
+    }
+  })
+}
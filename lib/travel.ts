@@ -0,0 +1,116 @@
+// Distances and travel times on the world map.
+// Map scale lives on each map in lib/maps.ts; this file turns it into numbers.
+
+import type { MapScale } from "@/lib/maps"
+import type { TileManifest } from "@/lib/tilePyramid"
+
+// private constant array for travel modes; speeds are defaults, users can override them
+const MODES = [
+  { id: "foot", label: "On foot", icon: "🚶", unitsPerDay: 8 },
+  { id: "horse", label: "Horse", icon: "🐎", unitsPerDay: 16 },
+  { id: "ship", label: "Ship", icon: "⛵", unitsPerDay: 40 },
+] as const
+
+// private constant array for saved route kinds; `mode` is the usual way to travel it
+const ROUTE_KINDS = [
+  { id: "road", label: "Road", color: "#fbbf24", dash: "", mode: "horse" },
+  { id: "trail", label: "Trail", color: "#a3e635", dash: "2 6", mode: "foot" },
+  { id: "sea-lane", label: "Sea lane", color: "#38bdf8", dash: "10 6", mode: "ship" },
+] as const
+
+// travel modes made public
+export const TRAVEL_MODES = MODES
+export type TravelMode = (typeof MODES)[number]
+export type TravelModeId = TravelMode["id"]
+export type TravelSpeeds = Record<TravelModeId, number> // map units per day
+
+export const DEFAULT_TRAVEL_SPEEDS = Object.fromEntries(MODES.map((m) => [m.id, m.unitsPerDay])) as TravelSpeeds
+
+// route kinds made public
+export const WORLD_ROUTE_KINDS = ROUTE_KINDS
+export type RouteKind = (typeof ROUTE_KINDS)[number]
+export const DEFAULT_ROUTE_KIND = ROUTE_KINDS[0]
+
+export function isRouteKind(id: unknown): id is RouteKind["id"] {
+  return typeof id === "string" && ROUTE_KINDS.some((k) => k.id === id)
+}
+
+export function getRouteKind(id?: string): RouteKind {
+  return ROUTE_KINDS.find((k) => k.id === id) ?? DEFAULT_ROUTE_KIND
+}
+
+/**
+ * A map's scale in the viewer's image space (its imgSize). Scales are
+ * calibrated in full-resolution pixels, but a tiled map's camera works in the
+ * pyramid's base level, `width / baseWidth` times smaller.
+ */
+export function viewerMapScale(scale: MapScale, tiles: TileManifest | null): MapScale {
+  if (!tiles) return scale
+  return { ...scale, pixelsPerUnit: (scale.pixelsPerUnit * tiles.baseWidth) / tiles.width }
+}
+
+/**
+ * Length of a polyline given in normalized 0..1 points, in the map's units.
+ * `scale` has to match `imgSize`: the viewer passes its imgSize with viewerMapScale.
+ *
+ * example:
+ * polylineLength([roanthur, dislow], { w: 1600, h: 900 }, activeMap.scale) // -> 42.5 (leagues)
+ */
+export function polylineLength(
+  points: Array<{ x: number; y: number }>,
+  imgSize: { w: number; h: number },
+  scale: MapScale,
+) {
+  let px = 0
+  for (let i = 1; i < points.length; i++) {
+    px += Math.hypot((points[i].x - points[i - 1].x) * imgSize.w, (points[i].y - points[i - 1].y) * imgSize.h)
+  }
+  return px / scale.pixelsPerUnit
+}
+
+export function formatDistance(units: number, scale: MapScale) {
+  const rounded = units >= 100 ? Math.round(units) : Math.round(units * 10) / 10
+  return `${rounded.toLocaleString("en-US")} ${rounded === 1 ? scale.unit : scale.unitPlural}`
+}
+
+/**
+ * Days of travel rendered as "3 days 4 h", "6 h" or "40 min" for short hops.
+ * A travel day is a full day on the road, so 0.5 days reads as 12 h.
+ */
+export function formatTravelTime(days: number) {
+  if (!Number.isFinite(days) || days <= 0) return "—"
+  const totalHours = days * 24
+  if (totalHours < 1) return `${Math.max(1, Math.round(totalHours * 60))} min`
+  const whole = Math.floor(days)
+  const hours = Math.round(totalHours - whole * 24)
+  if (!whole) return `${hours} h`
+  const dayLabel = `${whole} ${whole === 1 ? "day" : "days"}`
+  return hours ? `${dayLabel} ${hours} h` : dayLabel
+}
+
+export function parseTravelSpeeds(raw: string): TravelSpeeds {
+  const speeds = { ...DEFAULT_TRAVEL_SPEEDS }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>
+    for (const mode of MODES) {
+      const value = parsed?.[mode.id]
+      if (typeof value === "number" && Number.isFinite(value) && value > 0) speeds[mode.id] = value
+    }
+  } catch {
+    // keep defaults
+  }
+  return speeds
+}
+
+/**
+ * A round length (1, 2 or 5 times a power of ten) that spans at most `maxPx`
+ * on screen, for the scale bar.
+ */
+export function niceScaleLength(pxPerUnitOnScreen: number, maxPx: number) {
+  if (pxPerUnitOnScreen <= 0) return { units: 0, px: 0 }
+  const maxUnits = maxPx / pxPerUnitOnScreen
+  const magnitude = Math.pow(10, Math.floor(Math.log10(maxUnits)))
+  const step = [5, 2, 1].find((s) => s * magnitude <= maxUnits) ?? 1
+  const units = step * magnitude
+  return { units, px: units * pxPerUnitOnScreen }
+}
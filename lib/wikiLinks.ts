@@ -0,0 +1,139 @@
+import { getAllEntries, type ContentEntry, type EntrySummary } from "@/lib/content"
+
+// Matches Obsidian-style links: [[ozu]], [[locations/azuria-academy]],
+// [[locations/azuria-academy|the Academy]]
+const WIKI_LINK_PATTERN = /\[\[([^\[\]|]+)(?:\|([^\[\]]+))?\]\]/g
+// Fenced code blocks and inline code spans (a run of backticks closed by a run
+// of the same length) are left untouched.
+const CODE_PATTERN = /^```[\s\S]*?^```|(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/gm
+
+export type WikiLink = {
+  target: string
+  label: string
+}
+
+function normalizeTarget(value: string) {
+  return value.trim().toLowerCase().replace(/\.mdx?$/, "").replace(/\s+/g, "-")
+}
+
+function toSummary(entry: ContentEntry): EntrySummary {
+  return { category: entry.category, slug: entry.slug, title: entry.frontmatter.title }
+}
+
+// Escapes text for use inside MDX/JSX, where braces would start an expression.
+function escapeJsx(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\{/g, "&#123;")
+    .replace(/\}/g, "&#125;")
+}
+
+// Alternating prose and code: even indexes are prose, odd ones are code.
+function splitCode(source: string) {
+  const parts: string[] = []
+  let last = 0
+  for (const match of source.matchAll(CODE_PATTERN)) {
+    parts.push(source.slice(last, match.index), match[0])
+    last = match.index + match[0].length
+  }
+  parts.push(source.slice(last))
+  return parts
+}
+
+export function entryHref(entry: { category: string; slug: string }) {
+  return `/lore/${entry.category}/${entry.slug}`
+}
+
+/**
+ * Finds every [[wiki link]] in a markdown string.
+ * Links inside fenced code blocks and inline code spans are ignored.
+ */
+export function extractWikiLinks(source: string): WikiLink[] {
+  const links: WikiLink[] = []
+  const chunks = splitCode(source).filter((_, i) => i % 2 === 0)
+  for (const chunk of chunks) {
+    for (const match of chunk.matchAll(WIKI_LINK_PATTERN)) {
+      const target = match[1].trim()
+      links.push({ target, label: (match[2] ?? match[1]).trim() })
+    }
+  }
+  return links
+}
+
+/**
+ * Resolves a link target against the loaded entries.
+ * "category/slug" matches exactly; a bare "slug" matches the first entry with
+ * that slug (or last path segment, for nested entries) in any category,
+ * falling back to a case-insensitive title match.
+ */
+export function resolveWikiTarget(target: string, entries: ContentEntry[]): EntrySummary | null {
+  const wanted = normalizeTarget(target)
+  if (!wanted) return null
+
+  if (wanted.includes("/")) {
+    const hit =
+      entries.find((e) => `${e.category}/${e.slug}`.toLowerCase() === wanted) ??
+      entries.find((e) => e.slug.toLowerCase() === wanted)
+    return hit ? toSummary(hit) : null
+  }
+
+  const bySlug =
+    entries.find((e) => e.slug.toLowerCase() === wanted) ??
+    entries.find((e) => e.slug.toLowerCase().split("/").pop() === wanted)
+  if (bySlug) return toSummary(bySlug)
+
+  const byTitle = entries.find((e) => normalizeTarget(e.frontmatter.title) === wanted)
+  return byTitle ? toSummary(byTitle) : null
+}
+
+/**
+ * Replaces [[wiki links]] with inline JSX anchors before MDX compilation.
+ * Unresolved targets become a "missing page" span.
+ */
+export function renderWikiLinks(source: string, entries: ContentEntry[] = getAllEntries()): string {
+  return splitCode(source)
+    .map((part, i) => {
+      if (i % 2 === 1) return part
+      return part.replace(WIKI_LINK_PATTERN, (_match, rawTarget: string, rawLabel?: string) => {
+        const label = escapeJsx((rawLabel ?? rawTarget).trim())
+        const entry = resolveWikiTarget(rawTarget, entries)
+        if (!entry) {
+          return `<span className="wiki-link wiki-link-missing" title="Missing page: ${escapeJsx(rawTarget.trim())}">${label}</span>`
+        }
+        return `<a className="wiki-link" href="${entryHref(entry)}">${label}</a>`
+      })
+    })
+    .join("")
+}
+
+/**
+ * Builds the reverse index: "category/slug" -> entries that link to it.
+ */
+export function buildBacklinkIndex(entries: ContentEntry[] = getAllEntries()): Map<string, EntrySummary[]> {
+  const index = new Map<string, EntrySummary[]>()
+
+  for (const entry of entries) {
+    const seen = new Set<string>()
+    for (const link of extractWikiLinks(entry.content)) {
+      const target = resolveWikiTarget(link.target, entries)
+      if (!target) continue
+      const key = `${target.category}/${target.slug}`
+      // skip self references and repeated links from the same entry
+      if (key === `${entry.category}/${entry.slug}` || seen.has(key)) continue
+      seen.add(key)
+
+      const list = index.get(key) ?? []
+      list.push(toSummary(entry))
+      index.set(key, list)
+    }
+  }
+
+  return index
+}
+
+export function getBacklinks(category: string, slug: string): EntrySummary[] {
+  return buildBacklinkIndex().get(`${category}/${slug}`) ?? []
+}
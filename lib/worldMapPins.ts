@@ -1,5 +1,9 @@
 import fs from "fs"
 import path from "path"
+import { WORLD_MAPS, getMapById } from "@/lib/maps"
+import { isPinKind } from "@/lib/pinKinds"
+import { isRouteKind } from "@/lib/travel"
+import { pinsETag } from "@/lib/pinSync"
 
 export type WorldMapPin = {
   id: string
@@ -10,12 +14,59 @@ export type WorldMapPin = {
   description?: string
   mdxCategory?: string
   mdxSlug?: string
+  maps?: string[] // WORLD_MAPS ids the pin appears on; missing = every map
+  kind?: string // PIN_KINDS id, see lib/pinKinds.ts
 }
 
+export type RegionPoint = {
+  x: number // normalized 0..1, same space as pins
+  y: number
+}
+
+export type WorldMapRegion = {
+  id: string
+  title: string
+  points: RegionPoint[] // polygon vertices, at least 3
+  // style falls back to DEFAULT_REGION_STYLE in components/map-viewer/RegionsOverlay.tsx
+  fill?: string // "#rrggbb"
+  fillOpacity?: number // 0..1
+  stroke?: string // "#rrggbb"
+  strokeWidth?: number // screen pixels
+  mdxCategory?: string
+  mdxSlug?: string
+  maps?: string[] // same rule as WorldMapPin.maps
+}
+
+// the pin list with the revision it was read at
+export type WorldMapPinsState = {
+  pins: WorldMapPin[]
+  revision: number
+}
+
+export type WorldMapRoute = {
+  id: string
+  title: string
+  points: RegionPoint[] // polyline vertices, at least 2
+  kind?: string // WORLD_ROUTE_KINDS id, see lib/travel.ts
+  maps?: string[] // same rule as WorldMapPin.maps
+}
+
+// v1: bare { pins } (or array); v2: per-map pins; v3: regions; v4: saved routes;
+// v5: pinsRevision
+const STORE_VERSION = 5
+
 type StoreShape = {
+  version: number
+  // bumped on every pin write; the pin API's ETag, so stale writes can be refused
+  pinsRevision: number
   pins: WorldMapPin[]
+  regions: WorldMapRegion[]
+  routes: WorldMapRoute[]
 }
 
+// anything stored with a `maps` list: pins and regions
+type MapScoped = { id: string; maps?: string[] }
+
 const DATA_DIR = path.join(process.cwd(), "data")
 const PINS_FILE = path.join(DATA_DIR, "world-map-pins.json")
 
@@ -30,7 +81,7 @@ function ensureStore() {
   }
 
   if (!fs.existsSync(PINS_FILE)) {
-    const initial: StoreShape = { pins: [] }
+    const initial: StoreShape = { version: STORE_VERSION, pinsRevision: 0, pins: [], regions: [], routes: [] }
     fs.writeFileSync(PINS_FILE, JSON.stringify(initial, null, 2), "utf8")
   }
 }
@@ -45,31 +96,215 @@ function normalizePin(pin: WorldMapPin): WorldMapPin {
     description: pin.description?.trim() || undefined,
     mdxCategory: pin.mdxCategory?.trim() || undefined,
     mdxSlug: pin.mdxSlug?.trim() || undefined,
+    maps: normalizeMaps(pin.maps),
+    kind: pin.kind?.trim() || undefined,
+  }
+}
+
+function normalizeMaps(maps: unknown): string[] | undefined {
+  if (!Array.isArray(maps)) return undefined
+  const ids = Array.from(new Set(maps.filter((m): m is string => typeof m === "string").map((m) => m.trim()).filter(Boolean)))
+  return ids.length ? ids : undefined
+}
+
+function normalizeColor(value: unknown) {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value.trim()) ? value.trim().toLowerCase() : undefined
+}
+
+function normalizeRegion(region: WorldMapRegion): WorldMapRegion {
+  const points = Array.isArray(region.points) ? region.points : []
+  return {
+    ...region,
+    title: (region.title ?? "").trim() || "Untitled region",
+    points: points.map((p) => ({ x: clamp01(Number(p?.x)), y: clamp01(Number(p?.y)) })),
+    fill: normalizeColor(region.fill),
+    fillOpacity: typeof region.fillOpacity === "number" ? Math.min(1, Math.max(0, region.fillOpacity)) : undefined,
+    stroke: normalizeColor(region.stroke),
+    strokeWidth: typeof region.strokeWidth === "number" ? Math.min(12, Math.max(0, region.strokeWidth)) : undefined,
+    mdxCategory: region.mdxCategory?.trim() || undefined,
+    mdxSlug: region.mdxSlug?.trim() || undefined,
+    maps: normalizeMaps(region.maps),
+  }
+}
+
+function normalizeRoute(route: WorldMapRoute): WorldMapRoute {
+  const points = Array.isArray(route.points) ? route.points : []
+  return {
+    ...route,
+    title: (route.title ?? "").trim() || "Untitled route",
+    points: points.map((p) => ({ x: clamp01(Number(p?.x)), y: clamp01(Number(p?.y)) })),
+    kind: route.kind?.trim() || undefined,
+    maps: normalizeMaps(route.maps),
   }
 }
 
-export function readWorldMapPins(): WorldMapPin[] {
+export function isPinOnMap(pin: MapScoped, mapId: string) {
+  return !pin.maps || pin.maps.includes(mapId)
+}
+
+function objectsOf<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value.filter((v): v is T => Boolean(v && typeof v === "object")) : []
+}
+
+/**
+ * Throws when the file exists but can't be read or parsed: every write starts
+ * from this store, so falling back to an empty one would save over every pin,
+ * region and route. Only a missing file starts empty (see ensureStore).
+ */
+function readStore(): StoreShape {
+  ensureStore()
+  let parsed: Partial<StoreShape> | WorldMapPin[]
   try {
-    ensureStore()
-    const raw = fs.readFileSync(PINS_FILE, "utf8")
-    const parsed = (raw ? JSON.parse(raw) : {}) as Partial<StoreShape> | WorldMapPin[]
-    const pins = Array.isArray(parsed) ? parsed : parsed.pins
-    if (!Array.isArray(pins)) return []
-    return pins
-      .filter((p): p is WorldMapPin => Boolean(p && typeof p === "object"))
-      .map((p) => normalizePin(p as WorldMapPin))
+    parsed = JSON.parse(fs.readFileSync(PINS_FILE, "utf8"))
   } catch (error) {
-    console.error("Failed to read world map pins store", error)
-    return []
+    throw new Error(`Failed to read world map pins store ${PINS_FILE}`, { cause: error })
+  }
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`World map pins store ${PINS_FILE} isn't a JSON object`)
+  }
+
+  const revision = Array.isArray(parsed) ? 0 : Number(parsed.pinsRevision)
+  const store: StoreShape = {
+    version: STORE_VERSION,
+    pinsRevision: Number.isInteger(revision) && revision > 0 ? revision : 0,
+    pins: objectsOf<WorldMapPin>(Array.isArray(parsed) ? parsed : parsed.pins).map(normalizePin),
+    regions: objectsOf<WorldMapRegion>(Array.isArray(parsed) ? [] : parsed.regions)
+      .map(normalizeRegion)
+      .filter((r) => r.points.length >= 3),
+    routes: objectsOf<WorldMapRoute>(Array.isArray(parsed) ? [] : parsed.routes)
+      .map(normalizeRoute)
+      .filter((r) => r.points.length >= 2),
   }
+
+  // older stores upgrade in place; their pins keep showing on every map
+  if (Array.isArray(parsed) || parsed.version !== STORE_VERSION) writeStore(store)
+
+  return store
 }
 
-export function writeWorldMapPins(pins: WorldMapPin[]) {
+function writeStore(store: Omit<StoreShape, "version">) {
   ensureStore()
-  const data: StoreShape = { pins: pins.map(normalizePin) }
+  const data: StoreShape = {
+    version: STORE_VERSION,
+    pinsRevision: store.pinsRevision,
+    pins: store.pins.map(normalizePin),
+    regions: store.regions.map(normalizeRegion),
+    routes: store.routes.map(normalizeRoute),
+  }
   fs.writeFileSync(PINS_FILE, JSON.stringify(data, null, 2), "utf8")
 }
 
+/**
+ * Per-map save: items in `incoming` are inserted or replaced by id (they may
+ * list other maps too). Stored items on this map that are missing from
+ * `incoming` are taken off this map, and deleted once they are on no map at all.
+ */
+function mergeForMap<T extends MapScoped>(stored: T[], mapId: string, incoming: T[]): T[] {
+  const byId = new Map(incoming.map((item) => [item.id, item]))
+  const next: T[] = []
+
+  for (const item of stored) {
+    const updated = byId.get(item.id)
+    if (updated) {
+      next.push(updated)
+      byId.delete(item.id)
+      continue
+    }
+    if (!isPinOnMap(item, mapId)) {
+      next.push(item)
+      continue
+    }
+    const remaining = (item.maps ?? WORLD_MAPS.map((m) => m.id)).filter((id) => id !== mapId)
+    if (remaining.length) next.push({ ...item, maps: remaining })
+  }
+
+  // new items go first, matching how the editor adds them
+  return [...byId.values(), ...next]
+}
+
+export function readWorldMapPins(mapId?: string): WorldMapPin[] {
+  const { pins } = readStore()
+  return mapId ? pins.filter((p) => isPinOnMap(p, mapId)) : pins
+}
+
+export function readWorldMapPinsState(): WorldMapPinsState {
+  const { pins, pinsRevision } = readStore()
+  return { pins, revision: pinsRevision }
+}
+
+/**
+ * Replaces every stored pin and returns them with the new revision.
+ */
+export function writeWorldMapPins(pins: WorldMapPin[]): WorldMapPinsState {
+  const store = readStore()
+  const revision = store.pinsRevision + 1
+  writeStore({ ...store, pins, pinsRevision: revision })
+  return { pins: pins.map(normalizePin), revision }
+}
+
+/**
+ * Saves the pins shown on one map and returns every stored pin.
+ * See mergeForMap for how missing pins are handled.
+ */
+export function writeWorldMapPinsForMap(mapId: string, pins: WorldMapPin[]): WorldMapPinsState {
+  const store = readStore()
+  const merged = mergeForMap(store.pins, mapId, pins)
+  const revision = store.pinsRevision + 1
+  writeStore({ ...store, pins: merged, pinsRevision: revision })
+  return { pins: merged.map(normalizePin), revision }
+}
+
+/**
+ * Whether an If-Match header allows a write at `revision`: "*", or a list
+ * containing the current ETag (weak or strong).
+ */
+export function matchesPinsETag(ifMatch: string | null, revision: number) {
+  if (!ifMatch) return false
+  const current = pinsETag(revision)
+  return ifMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === current)
+}
+
+export function readWorldMapRegions(mapId?: string): WorldMapRegion[] {
+  const { regions } = readStore()
+  return mapId ? regions.filter((r) => isPinOnMap(r, mapId)) : regions
+}
+
+export function writeWorldMapRegions(regions: WorldMapRegion[]) {
+  writeStore({ ...readStore(), regions })
+}
+
+/**
+ * Saves the regions shown on one map and returns every stored region.
+ */
+export function writeWorldMapRegionsForMap(mapId: string, regions: WorldMapRegion[]): WorldMapRegion[] {
+  const store = readStore()
+  const merged = mergeForMap(store.regions, mapId, regions)
+  writeStore({ ...store, regions: merged })
+  return merged.map(normalizeRegion)
+}
+
+export function readWorldMapRoutes(mapId?: string): WorldMapRoute[] {
+  const { routes } = readStore()
+  return mapId ? routes.filter((r) => isPinOnMap(r, mapId)) : routes
+}
+
+export function writeWorldMapRoutes(routes: WorldMapRoute[]) {
+  writeStore({ ...readStore(), routes })
+}
+
+/**
+ * Saves the routes shown on one map and returns every stored route.
+ */
+export function writeWorldMapRoutesForMap(mapId: string, routes: WorldMapRoute[]): WorldMapRoute[] {
+  const store = readStore()
+  const merged = mergeForMap(store.routes, mapId, routes)
+  writeStore({ ...store, routes: merged })
+  return merged.map(normalizeRoute)
+}
+
 export function validatePins(input: unknown): WorldMapPin[] | null {
   if (!Array.isArray(input)) return null
   const pins: WorldMapPin[] = []
@@ -81,6 +316,11 @@ export function validatePins(input: unknown): WorldMapPin[] | null {
     if (typeof pin.id !== "string" || !pin.id.trim()) return null
     if (typeof pin.x !== "number" || typeof pin.y !== "number") return null
     if (typeof pin.title !== "string") return null
+    if (pin.maps !== undefined) {
+      if (!Array.isArray(pin.maps)) return null
+      if (pin.maps.some((id) => typeof id !== "string" || !getMapById(id))) return null
+    }
+    if (pin.kind !== undefined && !isPinKind(pin.kind)) return null
 
     pins.push(
       normalizePin({
@@ -92,6 +332,8 @@ export function validatePins(input: unknown): WorldMapPin[] | null {
         description: typeof pin.description === "string" ? pin.description : undefined,
         mdxCategory: typeof pin.mdxCategory === "string" ? pin.mdxCategory : undefined,
         mdxSlug: typeof pin.mdxSlug === "string" ? pin.mdxSlug : undefined,
+        maps: pin.maps,
+        kind: pin.kind,
       }),
     )
   }
@@ -99,3 +341,84 @@ export function validatePins(input: unknown): WorldMapPin[] | null {
   return pins
 }
 
+// the first id that appears twice, if any
+export function findDuplicateId(items: Array<{ id: string }>): string | undefined {
+  const ids = new Set<string>()
+  for (const item of items) {
+    if (ids.has(item.id)) return item.id
+    ids.add(item.id)
+  }
+  return undefined
+}
+
+export function validatePin(input: unknown): WorldMapPin | null {
+  return validatePins([input])?.[0] ?? null
+}
+
+export function validateRegions(input: unknown): WorldMapRegion[] | null {
+  if (!Array.isArray(input)) return null
+  const regions: WorldMapRegion[] = []
+
+  for (const item of input) {
+    if (!item || typeof item !== "object") return null
+    const region = item as Partial<WorldMapRegion>
+
+    if (typeof region.id !== "string" || !region.id.trim()) return null
+    if (typeof region.title !== "string") return null
+    if (!Array.isArray(region.points) || region.points.length < 3) return null
+    if (region.points.some((p) => !p || typeof p.x !== "number" || typeof p.y !== "number")) return null
+    if (region.maps !== undefined) {
+      if (!Array.isArray(region.maps)) return null
+      if (region.maps.some((id) => typeof id !== "string" || !getMapById(id))) return null
+    }
+
+    regions.push(
+      normalizeRegion({
+        id: region.id.trim(),
+        title: region.title,
+        points: region.points.map((p) => ({ x: p.x, y: p.y })),
+        fill: region.fill,
+        fillOpacity: region.fillOpacity,
+        stroke: region.stroke,
+        strokeWidth: region.strokeWidth,
+        mdxCategory: typeof region.mdxCategory === "string" ? region.mdxCategory : undefined,
+        mdxSlug: typeof region.mdxSlug === "string" ? region.mdxSlug : undefined,
+        maps: region.maps,
+      }),
+    )
+  }
+
+  return regions
+}
+
+export function validateRoutes(input: unknown): WorldMapRoute[] | null {
+  if (!Array.isArray(input)) return null
+  const routes: WorldMapRoute[] = []
+
+  for (const item of input) {
+    if (!item || typeof item !== "object") return null
+    const route = item as Partial<WorldMapRoute>
+
+    if (typeof route.id !== "string" || !route.id.trim()) return null
+    if (typeof route.title !== "string") return null
+    if (!Array.isArray(route.points) || route.points.length < 2) return null
+    if (route.points.some((p) => !p || typeof p.x !== "number" || typeof p.y !== "number")) return null
+    if (route.kind !== undefined && !isRouteKind(route.kind)) return null
+    if (route.maps !== undefined) {
+      if (!Array.isArray(route.maps)) return null
+      if (route.maps.some((id) => typeof id !== "string" || !getMapById(id))) return null
+    }
+
+    routes.push(
+      normalizeRoute({
+        id: route.id.trim(),
+        title: route.title,
+        points: route.points.map((p) => ({ x: p.x, y: p.y })),
+        kind: route.kind,
+        maps: route.maps,
+      }),
+    )
+  }
+
+  return routes
+}
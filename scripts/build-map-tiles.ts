@@ -0,0 +1,130 @@
+// Builds deep-zoom tile pyramids for the maps registered in lib/maps.ts.
+//
+//   npm run tiles:build                                   # every map whose image exists
+//   npm run tiles:build -- world-state world-biome        # only these maps
+//   npm run tiles:build -- world-state --source ~/exports/state-16k.png
+//
+// Output goes to public/tiles/<mapId>/ (manifest.json, preview.webp and
+// <level>/<col>_<row>.webp, see lib/tilePyramid.ts). The map page picks the
+// pyramid up on its next request. `--source` lets a high-resolution export
+// that isn't kept in public/ stand in for the map's registered image.
+
+import fs from "fs"
+import path from "path"
+import sharp from "sharp"
+import { WORLD_MAPS } from "@/lib/maps"
+import { BASE_MAX_SIZE, TILE_SIZE, levelSize, tilesDir, type TileManifest } from "@/lib/tilePyramid"
+
+const PUBLIC_DIR = path.join(process.cwd(), "public")
+const WEBP_QUALITY = 82
+
+function parseArgs(argv: string[]) {
+  const ids: string[] = []
+  let source: string | undefined
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--source") source = argv[++i]
+    else ids.push(argv[i])
+  }
+  return { ids, source }
+}
+
+// libvips writes a Deep Zoom pyramid next to this name: <name>_files/<level>/<col>_<row>.webp
+const PYRAMID_NAME = "pyramid"
+
+async function buildMap(mapId: string, source: string): Promise<TileManifest> {
+  const meta = await sharp(source, { limitInputPixels: false }).metadata()
+  if (!meta.width || !meta.height) throw new Error(`Could not read the size of ${source}`)
+  const { width, height } = meta
+
+  const maxLevel = Math.ceil(Math.log2(Math.max(width, height)))
+  const longSide = (level: number) => {
+    const size = levelSize({ width, height, maxLevel }, level)
+    return Math.max(size.w, size.h)
+  }
+  let minLevel = maxLevel
+  while (minLevel > 0 && longSide(minLevel) > TILE_SIZE) minLevel--
+  let baseLevel = maxLevel
+  while (baseLevel > minLevel && longSide(baseLevel) > BASE_MAX_SIZE) baseLevel--
+  const base = levelSize({ width, height, maxLevel }, baseLevel)
+
+  const outDir = path.join(PUBLIC_DIR, tilesDir(mapId))
+  fs.rmSync(outDir, { recursive: true, force: true })
+  fs.mkdirSync(outDir, { recursive: true })
+
+  // libvips streams the source through its Deep Zoom writer a few rows at a
+  // time, so even a 16k map never sits in memory whole. Its levels halve with
+  // rounding up and are numbered like ours (see levelSize); it keeps going
+  // down to 1x1, so the levels below minLevel are dropped.
+  await sharp(source, { limitInputPixels: false, sequentialRead: true })
+    .webp({ quality: WEBP_QUALITY })
+    .tile({ size: TILE_SIZE, overlap: 0, layout: "dz" })
+    .toFile(path.join(outDir, PYRAMID_NAME))
+
+  const pyramidDir = path.join(outDir, `${PYRAMID_NAME}_files`)
+  for (let level = maxLevel; level >= minLevel; level--) {
+    const size = levelSize({ width, height, maxLevel }, level)
+    const levelDir = path.join(outDir, String(level))
+    fs.renameSync(path.join(pyramidDir, String(level)), levelDir)
+    console.log(`  level ${level}: ${size.w}x${size.h}, ${fs.readdirSync(levelDir).length} tile(s)`)
+  }
+  fs.rmSync(pyramidDir, { recursive: true, force: true })
+  fs.rmSync(path.join(outDir, `${PYRAMID_NAME}.dzi`), { force: true })
+
+  // a shrinking resize streams as well
+  await sharp(source, { limitInputPixels: false, sequentialRead: true })
+    .resize(base.w, base.h, { fit: "fill" })
+    .webp({ quality: WEBP_QUALITY })
+    .toFile(path.join(outDir, "preview.webp"))
+
+  const manifest: TileManifest = {
+    mapId,
+    width,
+    height,
+    tileSize: TILE_SIZE,
+    format: "webp",
+    minLevel,
+    maxLevel,
+    baseLevel,
+    baseWidth: base.w,
+    baseHeight: base.h,
+  }
+  // written last, so an interrupted run never advertises missing tiles
+  fs.writeFileSync(path.join(outDir, "manifest.json"), JSON.stringify(manifest, null, 2), "utf8")
+  return manifest
+}
+
+async function main() {
+  const { ids, source } = parseArgs(process.argv.slice(2))
+  const unknown = ids.filter((id) => !WORLD_MAPS.some((m) => m.id === id))
+  if (unknown.length) {
+    console.error(`Unknown map id(s): ${unknown.join(", ")}. Known: ${WORLD_MAPS.map((m) => m.id).join(", ")}`)
+    process.exit(1)
+  }
+  if (source && ids.length !== 1) {
+    console.error("--source needs exactly one map id.")
+    process.exit(1)
+  }
+
+  const maps = ids.length ? WORLD_MAPS.filter((m) => ids.includes(m.id)) : WORLD_MAPS
+  let failed = 0
+  for (const map of maps) {
+    const file = source ?? path.join(PUBLIC_DIR, map.src)
+    if (!fs.existsSync(file)) {
+      // only an error when the map was asked for by name
+      console[ids.length ? "error" : "warn"](`${map.id}: ${file} not found, skipped`)
+      if (ids.length) failed++
+      continue
+    }
+    console.log(`${map.id}: ${path.relative(process.cwd(), file)}`)
+    try {
+      const manifest = await buildMap(map.id, file)
+      console.log(`  -> ${tilesDir(map.id)} (base ${manifest.baseWidth}x${manifest.baseHeight})`)
+    } catch (error) {
+      failed++
+      console.error(`${map.id}: failed`, error)
+    }
+  }
+  process.exit(failed ? 1 : 0)
+}
+
+void main()
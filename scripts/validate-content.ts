@@ -0,0 +1,25 @@
+// Validates the frontmatter of every file under content/ against the per-type
+// schemas in lib/contentSchema.ts.
+//
+//   npm run validate:content
+//
+// Exits with code 1 when any file has an error. Warnings are printed but do
+// not fail the run.
+
+import { getContentHealth } from "@/lib/content"
+
+const reports = getContentHealth()
+let errors = 0
+let warnings = 0
+
+for (const report of reports) {
+  console.log(`\n${report.file}`)
+  for (const issue of report.issues) {
+    if (issue.level === "error") errors++
+    else warnings++
+    console.log(`  ${issue.level === "error" ? "error  " : "warning"}  ${issue.field}: ${issue.message}`)
+  }
+}
+
+console.log(`\n${errors} error(s), ${warnings} warning(s) in ${reports.length} file(s).`)
+process.exit(errors > 0 ? 1 : 0)
@@ -0,0 +1,91 @@
+import Link from "next/link"
+import { cookies } from "next/headers"
+import { getAllEntries, getContentHealth } from "@/lib/content"
+import { ScrollReveal } from "@/components/ScrollReveal"
+
+export const dynamic = "force-dynamic"
+
+const COOKIE_NAME = "eonia_admin"
+
+export default async function ContentHealthPage() {
+  const cookieStore = await cookies()
+  const isAdmin = cookieStore.get(COOKIE_NAME)?.value === "1"
+
+  if (!isAdmin) {
+    return (
+      <main className="mx-auto max-w-4xl px-6 py-16">
+        <p className="text-xs uppercase tracking-[0.25em] text-white/60">Admin</p>
+        <h1 className="mt-2 text-3xl font-semibold">Content health</h1>
+        <p className="mt-6 text-sm text-white/60">
+          Log in as an admin (from any lore page or the world map) to view this report.
+        </p>
+      </main>
+    )
+  }
+
+  const total = getAllEntries().length
+  const reports = getContentHealth()
+  const errorCount = reports.reduce((n, r) => n + r.issues.filter((i) => i.level === "error").length, 0)
+  const warningCount = reports.reduce((n, r) => n + r.issues.filter((i) => i.level === "warning").length, 0)
+
+  return (
+    <main className="mx-auto max-w-4xl px-6 py-16">
+      <ScrollReveal>
+        <p className="text-xs uppercase tracking-[0.25em] text-white/60">Admin</p>
+        <h1 className="mt-2 text-3xl font-semibold">Content health</h1>
+        <p className="mt-2 text-sm text-white/60">
+          {total} files checked • {errorCount} errors • {warningCount} warnings
+        </p>
+        <p className="mt-1 text-xs text-white/40">
+          Run <code>npm run validate:content</code> to check from the command line.
+        </p>
+      </ScrollReveal>
+
+      {reports.length === 0 ? (
+        <p className="mt-8 rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-5 text-sm text-emerald-100">
+          Every file passes its frontmatter schema.
+        </p>
+      ) : (
+        <div className="mt-8 grid gap-4">
+          {reports.map((report) => (
+            <ScrollReveal key={report.file}>
+              <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-medium">{report.title}</h2>
+                    <p className="mt-1 font-mono text-xs text-white/50">{report.file}</p>
+                  </div>
+                  <Link
+                    href={`/lore/${report.category}/${report.slug}`}
+                    className="text-xs text-white/50 hover:text-white"
+                  >
+                    Open →
+                  </Link>
+                </div>
+                <ul className="mt-4 space-y-2 text-sm">
+                  {report.issues.map((issue, i) => (
+                    <li key={i} className="flex items-start gap-3">
+                      <span
+                        className={[
+                          "mt-0.5 rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-wider",
+                          issue.level === "error"
+                            ? "border-rose-400/30 bg-rose-500/10 text-rose-100"
+                            : "border-amber-400/30 bg-amber-500/10 text-amber-100",
+                        ].join(" ")}
+                      >
+                        {issue.level}
+                      </span>
+                      <span className="text-white/75">
+                        <span className="font-mono text-white/50">{issue.field}</span> {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </ScrollReveal>
+          ))}
+        </div>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { searchEntries } from "@/lib/search"
+
+const MAX_LIMIT = 50
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const query = (searchParams.get("q") ?? "").trim().slice(0, 200)
+  const limitParam = Number(searchParams.get("limit"))
+  const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(MAX_LIMIT, Math.floor(limitParam)) : undefined
+
+  if (!query) {
+    return NextResponse.json({ query, results: [] })
+  }
+
+  const results = searchEntries(query, { limit })
+  return NextResponse.json({ query, results })
+}
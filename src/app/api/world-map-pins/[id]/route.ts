@@ -0,0 +1,118 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import {
+  matchesPinsETag,
+  readWorldMapPinsState,
+  validatePin,
+  writeWorldMapPins,
+  type WorldMapPin,
+} from "@/lib/worldMapPins"
+import { pinsETag } from "@/lib/pinSync"
+
+const COOKIE_NAME = "eonia_admin"
+
+type Context = { params: Promise<{ id: string }> }
+
+// Admin cookie and an If-Match header; returns the error response, if any.
+async function authorizeWrite(req: Request) {
+  const cookieStore = await cookies()
+  if (cookieStore.get(COOKIE_NAME)?.value !== "1") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!req.headers.get("If-Match")) {
+    return NextResponse.json({ error: "If-Match header required" }, { status: 428 })
+  }
+  return null
+}
+
+/**
+ * Reads the store and checks the If-Match revision and that the pin exists.
+ * Synchronous, like the write that follows it, so no other write can land
+ * between the check and the save.
+ */
+function findCurrentPin(req: Request, id: string) {
+  const current = readWorldMapPinsState()
+  if (!matchesPinsETag(req.headers.get("If-Match"), current.revision)) {
+    return {
+      error: NextResponse.json(
+        { error: "Pins have changed since you loaded them", pins: current.pins, revision: current.revision },
+        { status: 409, headers: { ETag: pinsETag(current.revision) } },
+      ),
+    }
+  }
+  const index = current.pins.findIndex((p) => p.id === id)
+  if (index < 0) {
+    return { error: NextResponse.json({ error: "Pin not found" }, { status: 404 }) }
+  }
+  return { current, index }
+}
+
+function saved(pin: WorldMapPin, revision: number) {
+  return NextResponse.json({ ok: true, pin, revision }, { headers: { ETag: pinsETag(revision) } })
+}
+
+// GET /api/world-map-pins/<id> -> { pin, revision }
+export async function GET(_req: Request, { params }: Context) {
+  const { id } = await params
+  const { pins, revision } = readWorldMapPinsState()
+  const pin = pins.find((p) => p.id === id)
+  if (!pin) {
+    return NextResponse.json({ error: "Pin not found" }, { status: 404 })
+  }
+  return NextResponse.json({ pin, revision }, { headers: { ETag: pinsETag(revision) } })
+}
+
+// PUT { pin } replaces the pin; its id can't change
+export async function PUT(req: Request, { params }: Context) {
+  const { id } = await params
+  const denied = await authorizeWrite(req)
+  if (denied) return denied
+  const body = await req.json().catch(() => null)
+  const found = findCurrentPin(req, id)
+  if (found.error) return found.error
+  const { current, index } = found
+
+  const pin = validatePin({ ...body?.pin, id })
+  if (!pin) {
+    return NextResponse.json({ error: "Invalid pin payload" }, { status: 400 })
+  }
+  const next = writeWorldMapPins(current.pins.map((p, i) => (i === index ? pin : p)))
+  return saved(next.pins[index], next.revision)
+}
+
+// PATCH { pin: { title: "…", subtitle: null } } changes only the given fields; null clears one
+export async function PATCH(req: Request, { params }: Context) {
+  const { id } = await params
+  const denied = await authorizeWrite(req)
+  if (denied) return denied
+  const body = await req.json().catch(() => null)
+  const found = findCurrentPin(req, id)
+  if (found.error) return found.error
+  const { current, index } = found
+
+  const patch = body?.pin
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return NextResponse.json({ error: "Invalid pin payload" }, { status: 400 })
+  }
+  const merged: Record<string, unknown> = { ...current.pins[index] }
+  for (const [key, value] of Object.entries(patch)) merged[key] = value === null ? undefined : value
+  const pin = validatePin({ ...merged, id })
+  if (!pin) {
+    return NextResponse.json({ error: "Invalid pin payload" }, { status: 400 })
+  }
+  const next = writeWorldMapPins(current.pins.map((p, i) => (i === index ? pin : p)))
+  return saved(next.pins[index], next.revision)
+}
+
+// DELETE removes the pin from every map
+export async function DELETE(req: Request, { params }: Context) {
+  const { id } = await params
+  const denied = await authorizeWrite(req)
+  if (denied) return denied
+  const found = findCurrentPin(req, id)
+  if (found.error) return found.error
+  const { current, index } = found
+
+  const next = writeWorldMapPins(current.pins.filter((_, i) => i !== index))
+  return NextResponse.json({ ok: true, revision: next.revision }, { headers: { ETag: pinsETag(next.revision) } })
+}
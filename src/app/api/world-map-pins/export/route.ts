@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getMapById } from "@/lib/maps"
+import { isPinOnMap, readWorldMapPinsState } from "@/lib/worldMapPins"
+import { PIN_FILE_TYPES, isPinFileFormat, pinsToCSV, pinsToGeoJSON } from "@/lib/pinExchange"
+import { pinsETag } from "@/lib/pinSync"
+
+// GET /api/world-map-pins/export?format=geojson|csv&mapId=world-state -> the saved pins as a download
+// (all pins without mapId). GeoJSON coordinates are map-image fractions, see PIN_CRS_NAME.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams
+  const format = params.get("format") ?? "geojson"
+  if (!isPinFileFormat(format)) {
+    return NextResponse.json({ error: "Unknown format" }, { status: 400 })
+  }
+  const mapId = params.get("mapId")
+  if (mapId && !getMapById(mapId)) {
+    return NextResponse.json({ error: "Unknown map" }, { status: 404 })
+  }
+
+  const { pins: allPins, revision } = readWorldMapPinsState()
+  const pins = mapId ? allPins.filter((p) => isPinOnMap(p, mapId)) : allPins
+  const body = format === "geojson" ? JSON.stringify(pinsToGeoJSON(pins), null, 2) : pinsToCSV(pins)
+  const { extension, contentType } = PIN_FILE_TYPES[format]
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${mapId ?? "world-map"}-pins.${extension}"`,
+      ETag: pinsETag(revision),
+    },
+  })
+}
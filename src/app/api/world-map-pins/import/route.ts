@@ -0,0 +1,86 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import {
+  findDuplicateId,
+  matchesPinsETag,
+  readWorldMapPinsState,
+  validatePin,
+  validatePins,
+  writeWorldMapPins,
+} from "@/lib/worldMapPins"
+import { diffPinImport, isPinFileFormat, parsePinFile } from "@/lib/pinExchange"
+import { pinsETag } from "@/lib/pinSync"
+
+const COOKIE_NAME = "eonia_admin"
+
+/**
+ * POST { format: "geojson" | "csv", content, mode: "merge" | "replace", dryRun }
+ *
+ * With dryRun, returns what the import would do ({ added, changed, removed,
+ * revision }) without writing. Otherwise writes it under the same If-Match
+ * check as the bulk save (409 with the current pins when stale); send the
+ * dry run's revision so the store can't change between preview and import.
+ */
+export async function POST(req: Request) {
+  const cookieStore = await cookies()
+  const isAdmin = cookieStore.get(COOKIE_NAME)?.value === "1"
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const dryRun = body?.dryRun === true
+  const ifMatch = req.headers.get("If-Match")
+  if (!dryRun && !ifMatch) {
+    return NextResponse.json({ error: "If-Match header required" }, { status: 428 })
+  }
+
+  const format = body?.format
+  const mode = body?.mode
+  if (!isPinFileFormat(format) || typeof body?.content !== "string") {
+    return NextResponse.json({ error: "Invalid import payload" }, { status: 400 })
+  }
+  if (mode !== "merge" && mode !== "replace") {
+    return NextResponse.json({ error: "Unknown import mode" }, { status: 400 })
+  }
+
+  const parsed = parsePinFile(format, body.content)
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  const incoming = validatePins(parsed.items)
+  if (!incoming) {
+    const bad = parsed.items.findIndex((item) => !validatePin(item))
+    return NextResponse.json(
+      { error: `Pin ${bad + 1} in the file is invalid (check its id, title, kind and maps).` },
+      { status: 400 },
+    )
+  }
+  const duplicate = findDuplicateId(incoming)
+  if (duplicate !== undefined) {
+    return NextResponse.json({ error: `The file lists pin "${duplicate}" more than once.` }, { status: 400 })
+  }
+
+  // everything below is synchronous, so no other write can land between the check and the save
+  const current = readWorldMapPinsState()
+  if (!dryRun && !matchesPinsETag(ifMatch, current.revision)) {
+    return NextResponse.json(
+      { error: "Pins have changed since you loaded them", pins: current.pins, revision: current.revision },
+      { status: 409, headers: { ETag: pinsETag(current.revision) } },
+    )
+  }
+
+  const { pins, added, changed, removed } = diffPinImport(current.pins, incoming, mode)
+  if (dryRun) {
+    return NextResponse.json(
+      { added, changed, removed, revision: current.revision },
+      { headers: { ETag: pinsETag(current.revision) } },
+    )
+  }
+
+  const saved = writeWorldMapPins(pins)
+  return NextResponse.json(
+    { ok: true, ...saved, added: added.length, changed: changed.length, removed: removed.length },
+    { headers: { ETag: pinsETag(saved.revision) } },
+  )
+}
@@ -1,14 +1,39 @@
 import { cookies } from "next/headers"
 import { NextResponse } from "next/server"
-import { readWorldMapPins, validatePins, writeWorldMapPins } from "@/lib/worldMapPins"
+import { getMapById } from "@/lib/maps"
+import {
+  findDuplicateId,
+  isPinOnMap,
+  matchesPinsETag,
+  readWorldMapPinsState,
+  validatePin,
+  validatePins,
+  writeWorldMapPins,
+  writeWorldMapPinsForMap,
+} from "@/lib/worldMapPins"
+import { pinsETag } from "@/lib/pinSync"
 
 const COOKIE_NAME = "eonia_admin"
 
-export async function GET() {
-  const pins = readWorldMapPins()
-  return NextResponse.json({ pins })
+// GET /api/world-map-pins?mapId=world-state -> pins shown on that map (all pins without mapId)
+export async function GET(req: Request) {
+  const mapId = new URL(req.url).searchParams.get("mapId")
+  if (mapId && !getMapById(mapId)) {
+    return NextResponse.json({ error: "Unknown map" }, { status: 404 })
+  }
+
+  const { pins, revision } = readWorldMapPinsState()
+  return NextResponse.json(
+    { pins: mapId ? pins.filter((p) => isPinOnMap(p, mapId)) : pins, revision },
+    { headers: { ETag: pinsETag(revision) } },
+  )
 }
 
+// Writes need `If-Match: <ETag from the last read or write>`; a stale one gets
+// 409 with the current pins so the editor can merge.
+//
+// POST { pin } creates one pin (see ./[id]/route.ts for the rest).
+// POST { mapId, pins } saves one map's pins; without mapId, pins replaces the whole store (import).
 export async function POST(req: Request) {
   const cookieStore = await cookies()
   const isAdmin = cookieStore.get(COOKIE_NAME)?.value === "1"
@@ -16,13 +41,57 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
   }
 
+  const ifMatch = req.headers.get("If-Match")
+  if (!ifMatch) {
+    return NextResponse.json({ error: "If-Match header required" }, { status: 428 })
+  }
+
   const body = await req.json().catch(() => null)
+
+  // everything below is synchronous, so no other write can land between the check and the save
+  const current = readWorldMapPinsState()
+  if (!matchesPinsETag(ifMatch, current.revision)) {
+    return NextResponse.json(
+      { error: "Pins have changed since you loaded them", pins: current.pins, revision: current.revision },
+      { status: 409, headers: { ETag: pinsETag(current.revision) } },
+    )
+  }
+
+  if (body?.pin !== undefined) {
+    const pin = validatePin(body.pin)
+    if (!pin) {
+      return NextResponse.json({ error: "Invalid pin payload" }, { status: 400 })
+    }
+    // 409 always means "the store moved on, merge"; a taken id is a bad payload
+    if (current.pins.some((p) => p.id === pin.id)) {
+      return NextResponse.json({ error: "A pin with this id already exists" }, { status: 422 })
+    }
+    // new pins go first, matching how the editor adds them
+    const saved = writeWorldMapPins([pin, ...current.pins])
+    return NextResponse.json(
+      { ok: true, pin: saved.pins[0], revision: saved.revision },
+      { status: 201, headers: { ETag: pinsETag(saved.revision) } },
+    )
+  }
+
   const pins = validatePins(body?.pins)
   if (!pins) {
     return NextResponse.json({ error: "Invalid pins payload" }, { status: 400 })
   }
+  const duplicate = findDuplicateId(pins)
+  if (duplicate !== undefined) {
+    return NextResponse.json({ error: `Pin "${duplicate}" is listed more than once` }, { status: 422 })
+  }
 
-  writeWorldMapPins(pins)
-  return NextResponse.json({ ok: true, pins })
-}
+  const mapId = body?.mapId
+  if (mapId !== undefined) {
+    if (typeof mapId !== "string" || !getMapById(mapId)) {
+      return NextResponse.json({ error: "Unknown map" }, { status: 400 })
+    }
+    const saved = writeWorldMapPinsForMap(mapId, pins)
+    return NextResponse.json({ ok: true, ...saved }, { headers: { ETag: pinsETag(saved.revision) } })
+  }
 
+  const saved = writeWorldMapPins(pins)
+  return NextResponse.json({ ok: true, ...saved }, { headers: { ETag: pinsETag(saved.revision) } })
+}
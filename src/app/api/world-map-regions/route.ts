@@ -0,0 +1,49 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { getMapById } from "@/lib/maps"
+import {
+  readWorldMapRegions,
+  validateRegions,
+  writeWorldMapRegions,
+  writeWorldMapRegionsForMap,
+} from "@/lib/worldMapPins"
+
+const COOKIE_NAME = "eonia_admin"
+
+// GET /api/world-map-regions?mapId=world-state -> regions shown on that map (all regions without mapId)
+export async function GET(req: Request) {
+  const mapId = new URL(req.url).searchParams.get("mapId")
+  if (mapId && !getMapById(mapId)) {
+    return NextResponse.json({ error: "Unknown map" }, { status: 404 })
+  }
+
+  const regions = readWorldMapRegions(mapId ?? undefined)
+  return NextResponse.json({ regions })
+}
+
+// POST { mapId, regions } saves one map's regions; without mapId, regions replaces every stored region
+export async function POST(req: Request) {
+  const cookieStore = await cookies()
+  const isAdmin = cookieStore.get(COOKIE_NAME)?.value === "1"
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const regions = validateRegions(body?.regions)
+  if (!regions) {
+    return NextResponse.json({ error: "Invalid regions payload" }, { status: 400 })
+  }
+
+  const mapId = body?.mapId
+  if (mapId !== undefined) {
+    if (typeof mapId !== "string" || !getMapById(mapId)) {
+      return NextResponse.json({ error: "Unknown map" }, { status: 400 })
+    }
+    const saved = writeWorldMapRegionsForMap(mapId, regions)
+    return NextResponse.json({ ok: true, regions: saved })
+  }
+
+  writeWorldMapRegions(regions)
+  return NextResponse.json({ ok: true, regions })
+}
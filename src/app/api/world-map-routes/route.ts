@@ -0,0 +1,49 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { getMapById } from "@/lib/maps"
+import {
+  readWorldMapRoutes,
+  validateRoutes,
+  writeWorldMapRoutes,
+  writeWorldMapRoutesForMap,
+} from "@/lib/worldMapPins"
+
+const COOKIE_NAME = "eonia_admin"
+
+// GET /api/world-map-routes?mapId=world-state -> routes shown on that map (all routes without mapId)
+export async function GET(req: Request) {
+  const mapId = new URL(req.url).searchParams.get("mapId")
+  if (mapId && !getMapById(mapId)) {
+    return NextResponse.json({ error: "Unknown map" }, { status: 404 })
+  }
+
+  const routes = readWorldMapRoutes(mapId ?? undefined)
+  return NextResponse.json({ routes })
+}
+
+// POST { mapId, routes } saves one map's routes; without mapId, routes replaces every stored route
+export async function POST(req: Request) {
+  const cookieStore = await cookies()
+  const isAdmin = cookieStore.get(COOKIE_NAME)?.value === "1"
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const routes = validateRoutes(body?.routes)
+  if (!routes) {
+    return NextResponse.json({ error: "Invalid routes payload" }, { status: 400 })
+  }
+
+  const mapId = body?.mapId
+  if (mapId !== undefined) {
+    if (typeof mapId !== "string" || !getMapById(mapId)) {
+      return NextResponse.json({ error: "Unknown map" }, { status: 400 })
+    }
+    const saved = writeWorldMapRoutesForMap(mapId, routes)
+    return NextResponse.json({ ok: true, routes: saved })
+  }
+
+  writeWorldMapRoutes(routes)
+  return NextResponse.json({ ok: true, routes })
+}
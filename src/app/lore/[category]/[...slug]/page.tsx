@@ -0,0 +1,110 @@
+import { notFound, permanentRedirect } from "next/navigation"
+import { findMovedEntrySlug, getEntry } from "@/lib/content"
+import { MdxRender } from "@/components/MdxRender"
+import LoreNav from "@/components/LoreNav"
+import Badge from "@/components/Badge"
+import { ScrollReveal } from "@/components/ScrollReveal"
+import { LoreHero } from "@/components/LoreHero"
+import { getCoverPosition, normalizeKey } from "@/lib/coverPositions"
+import { getBacklinks } from "@/lib/wikiLinks"
+import { Backlinks } from "@/components/Backlinks"
+import { resolveInfobox } from "@/lib/infobox"
+import { Infobox } from "@/components/Infobox"
+import { linkableTags } from "@/lib/tags"
+import { getEntryGraph } from "@/lib/relations"
+import { EntryRelations } from "@/components/EntryRelations"
+
+export const dynamic = "force-dynamic"
+
+type LoreParams = { category: string; slug: string[] }
+
+export default async function LorePage({ params }: { params: Promise<LoreParams> | LoreParams }) {
+  const resolved = await params
+  if (!resolved || !Array.isArray(resolved.slug)) return notFound()
+
+  // catch-all route: /lore/locations/kircia/roanthur -> slug "kircia/roanthur"
+  const slug = resolved.slug.join("/")
+  const entry = getEntry(resolved.category, slug)
+  if (!entry) {
+    // entries moved into a region folder keep their old flat URL working
+    const moved = resolved.slug.length === 1 ? findMovedEntrySlug(resolved.category, slug) : null
+    if (moved) permanentRedirect(`/lore/${resolved.category}/${moved}`)
+    return notFound()
+  }
+
+  const { frontmatter, content } = entry
+  const coverPosition = getCoverPosition(normalizeKey(resolved.category, slug))
+  const backlinks = getBacklinks(resolved.category, slug)
+  const infoboxRows = resolveInfobox(entry)
+  const relationGraph = getEntryGraph(resolved.category, slug)
+  const tags = linkableTags(frontmatter.tags ?? [])
+
+  return (
+    <main className="min-h-screen">
+      <LoreHero
+        title={frontmatter.title}
+        region={frontmatter.region}
+        type={frontmatter.type}
+        category={resolved.category}
+        slug={slug}
+        cover={frontmatter.cover}
+        music={frontmatter.music}
+        initialPosition={coverPosition}
+      />
+
+      {/* Navigation */}
+      <LoreNav category={resolved.category} slug={slug} title={frontmatter.title} />
+
+      {/* Lore body, with the infobox as a sidebar when the entry has one */}
+      <section
+        className={
+          infoboxRows.length
+            ? "mx-auto flex max-w-5xl flex-col gap-10 px-6 py-14 md:grid md:grid-cols-[minmax(0,1fr)_280px]"
+            : "mx-auto max-w-3xl px-6 py-14"
+        }
+      >
+        <div className="min-w-0">
+          {/* Tags */}
+          <ScrollReveal>
+            {tags.length > 0 ? (
+              <div className="flex flex-wrap gap-3 text-sm text-white/60">
+                {tags.map((tag) => (
+                  <Badge key={tag} text={tag} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-white/50">No tags yet</p>
+            )}
+          </ScrollReveal>
+        
+          <ScrollReveal>
+            {frontmatter.excerpt ? (
+              <p className="text-lg text-white/70 italic pt-10">{frontmatter.excerpt}</p>
+            ) : null}
+          </ScrollReveal>
+
+          <div className="mt-10 space-y-6">
+            {/* Compiled as MDX with the components in components/mdx */}
+            <ScrollReveal>
+              <MdxRender source={content} />
+            </ScrollReveal>
+          </div>
+
+          <ScrollReveal>
+            <EntryRelations id={`${resolved.category}/${slug}`} graph={relationGraph} />
+          </ScrollReveal>
+
+          <ScrollReveal>
+            <Backlinks entries={backlinks} />
+          </ScrollReveal>
+        </div>
+
+        {infoboxRows.length ? (
+          <div className="order-first md:order-none">
+            <Infobox title={frontmatter.title} type={frontmatter.type} rows={infoboxRows} />
+          </div>
+        ) : null}
+      </section>
+    </main>
+  )
+}
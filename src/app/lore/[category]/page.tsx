@@ -1,6 +1,6 @@
 import Link from "next/link"
 import { notFound } from "next/navigation"
-import { getEntriesByCategory } from "@/lib/content"
+import { formatFolderName, getEntriesByCategory, type ContentEntry } from "@/lib/content"
 import { ScrollReveal } from "@/components/ScrollReveal"
 
 export default async function CategoryPage({ params }: { params: Promise<{ category: string }> | { category: string } }) {
@@ -9,6 +9,13 @@ export default async function CategoryPage({ params }: { params: Promise<{ categ
 
   const entries = getEntriesByCategory(resolved.category)
 
+  // top-level entries first, then one group per sub-folder
+  const groups = new Map<string, ContentEntry[]>()
+  for (const e of entries) {
+    groups.set(e.folder, [...(groups.get(e.folder) ?? []), e])
+  }
+  const folders = Array.from(groups.keys()).sort((a, b) => (a === "" ? -1 : b === "" ? 1 : a.localeCompare(b)))
+
   return (
     <main className="mx-auto max-w-4xl px-6 py-16">
       <ScrollReveal>
@@ -31,26 +38,38 @@ export default async function CategoryPage({ params }: { params: Promise<{ categ
         </div>
       </ScrollReveal>
 
-      <div className="mt-8 grid gap-4">
-        {entries.map((e) => (
-          <ScrollReveal key={e.slug}>
-            <Link
-              href={`/lore/${e.category}/${e.slug}`}
-              className="block rounded-2xl border border-white/10 bg-white/5 p-5 hover:bg-white/10 transition"
-            >
-              <div className="flex items-center justify-between gap-4">
-                <div>
-                  <h2 className="text-lg font-medium">{e.frontmatter.title}</h2>
-                  <p className="mt-1 text-sm text-white/60">
-                    {e.frontmatter.excerpt ?? "Open to read more."}
-                  </p>
-                </div>
-                <span className="text-xs text-white/50">Open →</span>
-              </div>
-            </Link>
-          </ScrollReveal>
-        ))}
-      </div>
+      {folders.map((folder) => (
+        <section key={folder || "root"} id={folder || undefined} className="mt-8 scroll-mt-24">
+          {folder ? (
+            <ScrollReveal>
+              <h2 className="mb-4 text-xs uppercase tracking-[0.25em] text-white/60">
+                {formatFolderName(folder)}
+              </h2>
+            </ScrollReveal>
+          ) : null}
+
+          <div className="grid gap-4">
+            {(groups.get(folder) ?? []).map((e) => (
+              <ScrollReveal key={e.slug}>
+                <Link
+                  href={`/lore/${e.category}/${e.slug}`}
+                  className="block rounded-2xl border border-white/10 bg-white/5 p-5 hover:bg-white/10 transition"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-medium">{e.frontmatter.title}</h2>
+                      <p className="mt-1 text-sm text-white/60">
+                        {e.frontmatter.excerpt ?? "Open to read more."}
+                      </p>
+                    </div>
+                    <span className="text-xs text-white/50">Open →</span>
+                  </div>
+                </Link>
+              </ScrollReveal>
+            ))}
+          </div>
+        </section>
+      ))}
     </main>
   )
 }
@@ -1,28 +1,41 @@
 import { WorldMap } from "@/components/WorldMap"
 import { getAllEntrySummaries } from "@/lib/content"
 import { WORLD_MAPS, getMapById } from "@/lib/maps"
-import { readWorldMapPins } from "@/lib/worldMapPins"
+import { readWorldMapPinsState, readWorldMapRegions, readWorldMapRoutes } from "@/lib/worldMapPins"
+import { parseMapView } from "@/lib/mapView"
+import { readTileManifests } from "@/lib/mapTiles"
 import { notFound } from "next/navigation"
 
 export default async function Page({
     params,
+    searchParams,
     }: {
     params: Promise<{ mapId: string }>
+    searchParams: Promise<Record<string, string | string[] | undefined>>
     }) {
     const { mapId } = await params
+    const initialView = parseMapView(await searchParams)
 
     const selected = getMapById(mapId)
     if (!selected) notFound()
 
-    const pins = readWorldMapPins()
+    const { pins, revision: pinsRevision } = readWorldMapPinsState()
+    const regions = readWorldMapRegions()
+    const routes = readWorldMapRoutes()
     const entrySummaries = getAllEntrySummaries()
+    const tileManifests = readTileManifests()
 
     return (
         <WorldMap
             maps={WORLD_MAPS}
             defaultMapId={selected.id}
             initialPins={pins}
+            initialPinsRevision={pinsRevision}
+            initialRegions={regions}
+            initialRoutes={routes}
             entrySummaries={entrySummaries}
+            tileManifests={tileManifests}
+            initialView={initialView}
         />
     )
 }
@@ -0,0 +1,39 @@
+import Link from "next/link"
+import { buildRelationGraph } from "@/lib/relations"
+import { RelationGraph } from "@/components/RelationGraph"
+import { ScrollReveal } from "@/components/ScrollReveal"
+
+export const dynamic = "force-dynamic"
+
+export default function RelationsPage() {
+  const graph = buildRelationGraph()
+
+  return (
+    <main className="mx-auto max-w-6xl px-6 py-16">
+      <ScrollReveal>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.25em] text-white/60">Atlas</p>
+            <h1 className="mt-2 text-3xl font-semibold">Relationships</h1>
+            <p className="mt-2 text-sm text-white/60">Drag to rearrange • Hover to trace connections • Click to open an entry</p>
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm text-white/80 shadow-sm hover:bg-white/10 transition"
+          >
+            <span className="text-white/60">←</span>
+            Back to Home
+          </Link>
+        </div>
+      </ScrollReveal>
+
+      <div className="mt-8">
+        {graph.nodes.length ? (
+          <RelationGraph nodes={graph.nodes} edges={graph.edges} height={640} />
+        ) : (
+          <p className="text-sm text-white/50">No relations yet</p>
+        )}
+      </div>
+    </main>
+  )
+}
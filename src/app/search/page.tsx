@@ -0,0 +1,84 @@
+import Link from "next/link"
+import { searchEntries, type SearchSnippet } from "@/lib/search"
+import { entryHref } from "@/lib/wikiLinks"
+import { ScrollReveal } from "@/components/ScrollReveal"
+
+export const dynamic = "force-dynamic"
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start))
+    parts.push(
+      <mark key={i} className="rounded bg-amber-300/20 px-0.5 text-amber-100">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  parts.push(snippet.text.slice(cursor))
+  return <>{parts}</>
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string | string[] }>
+}) {
+  const { q } = await searchParams
+  const query = (Array.isArray(q) ? q[0] : q ?? "").trim()
+  const results = query ? searchEntries(query) : []
+
+  return (
+    <main className="mx-auto max-w-4xl px-6 py-16">
+      <ScrollReveal>
+        <p className="text-xs uppercase tracking-[0.25em] text-white/60">Atlas</p>
+        <h1 className="mt-2 text-3xl font-semibold">Search the lore</h1>
+
+        <form action="/search" method="get" className="mt-6 flex gap-3">
+          <input
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder="Try “Dislow”, “Reyna” or “festival”"
+            className="w-full rounded-2xl border border-white/10 bg-black/30 px-4 py-2 text-sm text-white outline-none focus:border-white/25"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm text-white/80 hover:bg-white/10 transition"
+          >
+            Search
+          </button>
+        </form>
+      </ScrollReveal>
+
+      {query ? (
+        <p className="mt-8 text-sm text-white/60">
+          {results.length} {results.length === 1 ? "result" : "results"} for “{query}”
+        </p>
+      ) : null}
+
+      <div className="mt-4 grid gap-4">
+        {results.map((r) => (
+          <ScrollReveal key={`${r.category}/${r.slug}`}>
+            <Link
+              href={entryHref(r)}
+              className="block rounded-2xl border border-white/10 bg-white/5 p-5 hover:bg-white/10 transition"
+            >
+              <p className="text-xs text-white/50 uppercase tracking-wider">
+                {r.category}
+                {r.region ? ` • ${r.region}` : ""}
+              </p>
+              <h2 className="mt-1 text-lg font-medium">{r.title}</h2>
+              <p className="mt-2 text-sm text-white/65">
+                <Highlighted snippet={r.snippet} />
+              </p>
+            </Link>
+          </ScrollReveal>
+        ))}
+      </div>
+    </main>
+  )
+}
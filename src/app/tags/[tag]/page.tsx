@@ -0,0 +1,69 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { getAllTags, getEntriesByTag } from "@/lib/content"
+import { tagKey } from "@/lib/tags"
+import { ScrollReveal } from "@/components/ScrollReveal"
+
+export const dynamic = "force-dynamic"
+
+export default async function TagPage({ params }: { params: Promise<{ tag: string }> | { tag: string } }) {
+  const resolved = await params
+  if (!resolved || typeof resolved.tag !== "string") return notFound()
+
+  // the param arrives percent-encoded; a malformed escape is just an unknown tag
+  let tag: string
+  try {
+    tag = decodeURIComponent(resolved.tag)
+  } catch {
+    return notFound()
+  }
+  const entries = getEntriesByTag(tag)
+  if (!entries.length) return notFound()
+
+  const label = getAllTags().find((t) => tagKey(t.tag) === tagKey(tag))?.label ?? tag
+
+  return (
+    <main className="mx-auto max-w-4xl px-6 py-16">
+      <ScrollReveal>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.25em] text-white/60">Tag</p>
+            <h1 className="mt-2 text-3xl font-semibold">#{label}</h1>
+            <p className="mt-2 text-sm text-white/60">
+              {entries.length} {entries.length === 1 ? "entry" : "entries"}
+            </p>
+          </div>
+          <Link
+            href="/tags"
+            className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm text-white/80 shadow-sm hover:bg-white/10 transition"
+          >
+            <span className="text-white/60">←</span>
+            All tags
+          </Link>
+        </div>
+      </ScrollReveal>
+
+      <div className="mt-8 grid gap-4">
+        {entries.map((e) => (
+          <ScrollReveal key={`${e.category}/${e.slug}`}>
+            <Link
+              href={`/lore/${e.category}/${e.slug}`}
+              className="block rounded-2xl border border-white/10 bg-white/5 p-5 hover:bg-white/10 transition"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-xs text-white/50 uppercase tracking-wider">{e.category}</p>
+                  <h2 className="mt-1 text-lg font-medium">{e.frontmatter.title}</h2>
+                  <p className="mt-1 text-sm text-white/60">
+                    {e.frontmatter.excerpt ?? "Open to read more."}
+                  </p>
+                </div>
+                <span className="text-xs text-white/50">Open →</span>
+              </div>
+            </Link>
+          </ScrollReveal>
+        ))}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,42 @@
+import Link from "next/link"
+import { getAllTags } from "@/lib/content"
+import Badge from "@/components/Badge"
+import { ScrollReveal } from "@/components/ScrollReveal"
+
+export const dynamic = "force-dynamic"
+
+export default function TagsPage() {
+  const tags = getAllTags()
+
+  return (
+    <main className="mx-auto max-w-4xl px-6 py-16">
+      <ScrollReveal>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.25em] text-white/60">Index</p>
+            <h1 className="mt-2 text-3xl font-semibold">Tags</h1>
+          </div>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-sm text-white/80 shadow-sm hover:bg-white/10 transition"
+          >
+            <span className="text-white/60">←</span>
+            Back to Home
+          </Link>
+        </div>
+      </ScrollReveal>
+
+      <ScrollReveal>
+        {tags.length ? (
+          <div className="mt-8 flex flex-wrap gap-3">
+            {tags.map((t) => (
+              <Badge key={t.tag} text={t.label} count={t.count} />
+            ))}
+          </div>
+        ) : (
+          <p className="mt-8 text-sm text-white/50">No tags yet</p>
+        )}
+      </ScrollReveal>
+    </main>
+  )
+}
@@ -1,20 +1,35 @@
 import { WorldMap } from "@/components/WorldMap"
 import { getAllEntrySummaries } from "@/lib/content"
-import { readWorldMapPins } from "@/lib/worldMapPins"
+import { readWorldMapPinsState, readWorldMapRegions, readWorldMapRoutes } from "@/lib/worldMapPins"
 import { WORLD_MAPS, DEFAULT_MAP } from "@/lib/maps"
+import { parseMapView } from "@/lib/mapView"
+import { readTileManifests } from "@/lib/mapTiles"
 
 export const dynamic = "force-dynamic"
 
-export default function WorldMapPage() {
-  const pins = readWorldMapPins()
+export default async function WorldMapPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const initialView = parseMapView(await searchParams)
+  const { pins, revision: pinsRevision } = readWorldMapPinsState()
+  const regions = readWorldMapRegions()
+  const routes = readWorldMapRoutes()
   const entrySummaries = getAllEntrySummaries()
+  const tileManifests = readTileManifests()
 
   return (
     <WorldMap
       maps={WORLD_MAPS}
       defaultMapId={DEFAULT_MAP.id}
       initialPins={pins}
+      initialPinsRevision={pinsRevision}
+      initialRegions={regions}
+      initialRoutes={routes}
       entrySummaries={entrySummaries}
+      tileManifests={tileManifests}
+      initialView={initialView}
     />
   )
 }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { PIN_CRS_NAME, diffPinImport, parsePinsCSV, parsePinsGeoJSON, pinsToCSV, pinsToGeoJSON } from "@/lib/pinExchange"
+import type { WorldMapPin } from "@/lib/worldMapPins"
+
+const PINS: WorldMapPin[] = [
+  {
+    id: "a",
+    x: 0.25,
+    y: 0.5,
+    title: 'Quote "x", comma',
+    description: "line one\nline two",
+    maps: ["world-current", "world-state"],
+  },
+  { id: "b", x: 1, y: 0, title: "B", kind: "city" },
+]
+
+describe("CSV", () => {
+  it("round-trips quoted cells and map lists", () => {
+    expect(parsePinsCSV(pinsToCSV(PINS))).toEqual({ items: PINS })
+  })
+
+  it.each(["0x1A", "1e3", "Infinity", "NaN", "abc", "", "1.5", "-0.1"])("rejects x = %j with its row and column", (x) => {
+    const parsed = parsePinsCSV(`id,title,x,y\na,A,0.1,0.2\nb,B,${x},0.2\n`)
+    expect(parsed).toEqual({ error: expect.stringContaining("Row 2, column 3 (x)") })
+  })
+
+  it("accepts plain decimals", () => {
+    expect(parsePinsCSV("id,x,y,title\na,.5,1,A\n")).toEqual({ items: [{ id: "a", x: 0.5, y: 1, title: "A" }] })
+  })
+})
+
+describe("GeoJSON", () => {
+  it("round-trips through the map-image CRS", () => {
+    const geojson = pinsToGeoJSON(PINS)
+    expect(geojson.crs.properties.name).toBe(PIN_CRS_NAME)
+    const parsed = parsePinsGeoJSON(JSON.stringify(geojson))
+    expect("items" in parsed && parsed.items).toEqual(PINS.map((pin) => expect.objectContaining(pin)))
+  })
+
+  it("refuses other coordinate systems", () => {
+    const parsed = parsePinsGeoJSON(
+      JSON.stringify({ type: "FeatureCollection", crs: { type: "name", properties: { name: "EPSG:4326" } }, features: [] }),
+    )
+    expect(parsed).toEqual({ error: expect.stringContaining("Unsupported CRS") })
+  })
+})
+
+describe("diffPinImport", () => {
+  const incoming: WorldMapPin[] = [
+    { ...PINS[1], title: "B2" },
+    { id: "c", x: 0, y: 0, title: "C" },
+  ]
+
+  it("merges by id and keeps the rest", () => {
+    const diff = diffPinImport(PINS, incoming, "merge")
+    expect(diff.added.map((p) => p.id)).toEqual(["c"])
+    expect(diff.changed.map((c) => c.after.title)).toEqual(["B2"])
+    expect(diff.removed).toEqual([])
+    expect(diff.pins.map((p) => p.id)).toEqual(["c", "a", "b"])
+  })
+
+  it("replaces the whole list", () => {
+    const diff = diffPinImport(PINS, incoming, "replace")
+    expect(diff.removed.map((p) => p.id)).toEqual(["a"])
+    expect(diff.pins).toEqual(incoming)
+  })
+})
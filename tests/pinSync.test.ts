@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { applyPinSaveOp, diffPins, removePinFromMap, type PinSaveOp } from "@/lib/pinSync"
+import type { WorldMapPin } from "@/lib/worldMapPins"
+
+const MAP_IDS = ["a", "b", "c"]
+
+// what the server stores and returns for each request
+function serverApply(pin: WorldMapPin, op: PinSaveOp): WorldMapPin | undefined {
+  if (op.type === "create" || op.type === "update") return op.pin
+  if (op.type === "unlist") return { ...pin, maps: op.maps }
+  return undefined
+}
+
+function save(saved: WorldMapPin[], current: WorldMapPin[], mapId: string) {
+  const ops = diffPins(saved, current, mapId, MAP_IDS)
+  let next = saved
+  for (const op of ops) {
+    const id = op.type === "create" || op.type === "update" ? op.pin.id : op.id
+    const before = next.find((p) => p.id === id) as WorldMapPin
+    next = applyPinSaveOp(next, op, serverApply(before, op))
+  }
+  return { ops, saved: next }
+}
+
+describe("removePinFromMap", () => {
+  it("keeps a pin on its other maps", () => {
+    const pin = { id: "ozu", x: 0.5, y: 0.5, title: "Ozu", maps: ["a", "b"] }
+    expect(removePinFromMap(pin, "a", MAP_IDS)).toEqual({ ...pin, maps: ["b"] })
+    expect(removePinFromMap({ ...pin, maps: undefined }, "a", MAP_IDS)?.maps).toEqual(["b", "c"])
+    expect(removePinFromMap({ ...pin, maps: ["a"] }, "a", MAP_IDS)).toBeNull()
+  })
+})
+
+describe("diffPins", () => {
+  const pin: WorldMapPin = { id: "ozu", x: 0.5, y: 0.5, title: "Ozu" }
+
+  it("takes a deleted pin off the shown map once, then has nothing left to save", () => {
+    // delete on map a: the editor keeps the pin on its other maps
+    const current = [removePinFromMap(pin, "a", MAP_IDS) as WorldMapPin]
+    const first = save([pin], current, "a")
+    expect(first.ops).toEqual([{ type: "update", pin: { ...pin, maps: ["b", "c"] } }])
+    expect(first.saved).toEqual(current)
+
+    // a later save on map b leaves the pin alone
+    expect(save(first.saved, current, "b").ops).toEqual([])
+  })
+
+  it("only takes a missing pin off the map being saved", () => {
+    const onAB = { ...pin, maps: ["a", "b"] }
+    const first = save([onAB], [], "a")
+    expect(first.ops).toEqual([{ type: "unlist", id: "ozu", maps: ["b"] }])
+    expect(first.saved).toEqual([{ ...onAB, maps: ["b"] }])
+
+    // the editor adopts the stored pin; without that, a save on b leaves it there
+    expect(save(first.saved, first.saved, "b").ops).toEqual([])
+    expect(save(first.saved, [], "c").ops).toEqual([])
+  })
+
+  it("deletes a missing pin on the shown map only", () => {
+    expect(diffPins([{ ...pin, maps: ["a"] }], [], "a", MAP_IDS)).toEqual([{ type: "delete", id: "ozu" }])
+  })
+})
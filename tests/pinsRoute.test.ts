@@ -0,0 +1,70 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { pinsETag } from "@/lib/pinSync"
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: (name: string) => (name === "eonia_admin" ? { value: "1" } : undefined) }),
+}))
+
+// The store lives in <cwd>/data; point it at a scratch directory before the
+// modules resolve their paths.
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "world-map-pins-route-"))
+let route: typeof import("@/src/app/api/world-map-pins/route")
+let store: typeof import("@/lib/worldMapPins")
+
+beforeAll(async () => {
+  vi.spyOn(process, "cwd").mockReturnValue(root)
+  store = await import("@/lib/worldMapPins")
+  route = await import("@/src/app/api/world-map-pins/route")
+})
+
+afterAll(() => {
+  vi.restoreAllMocks()
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  fs.rmSync(path.join(root, "data"), { recursive: true, force: true })
+  store.writeWorldMapPins([{ id: "ozu", x: 0.5, y: 0.5, title: "Ozu" }])
+})
+
+function post(body: unknown) {
+  const { revision } = store.readWorldMapPinsState()
+  return route.POST(
+    new Request("http://localhost/api/world-map-pins", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "If-Match": pinsETag(revision) },
+      body: JSON.stringify(body),
+    }),
+  )
+}
+
+describe("POST /api/world-map-pins", () => {
+  it("answers 422 to a pin id that is already taken", async () => {
+    const res = await post({ pin: { id: "ozu", x: 0.1, y: 0.1, title: "Another Ozu" } })
+    expect(res.status).toBe(422)
+  })
+
+  it("answers 422 to a bulk save listing an id twice, and saves nothing", async () => {
+    const before = store.readWorldMapPinsState()
+    const pins = [
+      { id: "roanthur", x: 0.1, y: 0.1, title: "Roanthur" },
+      { id: "roanthur", x: 0.2, y: 0.2, title: "Roanthur again" },
+    ]
+
+    for (const body of [{ pins }, { mapId: "world-state", pins }]) {
+      const res = await post(body)
+      expect(res.status).toBe(422)
+      expect((await res.json()).error).toContain("roanthur")
+    }
+    expect(store.readWorldMapPinsState()).toEqual(before)
+  })
+
+  it("saves a bulk payload with distinct ids", async () => {
+    const res = await post({ pins: [{ id: "roanthur", x: 0.1, y: 0.1, title: "Roanthur" }] })
+    expect(res.status).toBe(200)
+    expect(store.readWorldMapPinsState().pins.map((p) => p.id)).toEqual(["roanthur"])
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest"
+import { renderToStaticMarkup } from "react-dom/server"
+import { MarkdownRender } from "@/components/MarkdownRender"
+import { MdxRender } from "@/components/MdxRender"
+import { isSafeUrl } from "@/lib/sanitize"
+
+// Known XSS payloads through both render paths: MarkdownRender (marked +
+// sanitizeHtml, used for pin descriptions) and MdxRender (compileMDX +
+// rehypeSanitizeMdx, used for entry bodies).
+
+function renderMarkdown(source: string) {
+  return renderToStaticMarkup(MarkdownRender({ source }))
+}
+
+async function renderMdx(source: string) {
+  const html = renderToStaticMarkup(await MdxRender({ source }))
+  // a payload that doesn't compile would only prove the compiler rejects it
+  expect(html).not.toContain("could not be compiled")
+  return html
+}
+
+// Nothing in the output may run script: no script-capable tags, no event
+// handler or style attributes, no script/html URLs in href or src.
+function expectNeutralised(html: string) {
+  expect(html).not.toMatch(/<(script|iframe|svg|object|embed|style)\b/i)
+  expect(html).not.toMatch(/<[^>]*\son[a-z]+\s*=/i)
+  expect(html).not.toMatch(/<[^>]*\sstyle\s*=/i)
+  expect(html).not.toMatch(/\s(href|src)\s*=\s*"[^"]*(javascript|vbscript|data):/i)
+  expect(html).not.toMatch(/\s(href|src)\s*=\s*"[^"]*&#/i)
+}
+
+const HTML_PAYLOADS: Array<[string, string]> = [
+  ["script tag", "<script>alert(1)</script>"],
+  ["img onerror", "<img src=x onerror=alert(1)>"],
+  ["body onload", "<body onload=alert(1)>text</body>"],
+  ["javascript: link", '<a href="javascript:alert(1)">x</a>'],
+  ["javascript: markdown link", "[x](javascript:alert(1))"],
+  ["data:text/html link", '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>'],
+  ["data:text/html image", '<img src="data:text/html,<script>alert(1)</script>">'],
+  ["entity-obfuscated scheme", '<a href="jav&#x09;ascript:alert(1)">x</a>'],
+  ["decimal-entity scheme", '<a href="&#106;avascript:alert(1)">x</a>'],
+  ["svg script", "<svg><script>alert(1)</script></svg>"],
+  ["svg onload", "<svg onload=alert(1)></svg>"],
+  ["iframe", '<iframe src="https://example.com"></iframe>'],
+  ["iframe srcdoc", '<iframe srcdoc="<script>alert(1)</script>"></iframe>'],
+  ["style expression", '<div style="width: expression(alert(1))">x</div>'],
+]
+
+// the same attacks written as MDX/JSX, plus attribute expressions
+const MDX_PAYLOADS: Array<[string, string]> = [
+  ["script tag", "<script>alert(1)</script>"],
+  ["img onError", '<img src="x" onError="alert(1)" />'],
+  ["div onLoad", '<div onLoad="alert(1)">text</div>'],
+  ["javascript: link", '<a href="javascript:alert(1)">x</a>'],
+  ["javascript: markdown link", "[x](javascript:alert(1))"],
+  ["data:text/html link", '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>'],
+  ["data:text/html image", '<img src="data:text/html,alert(1)" />'],
+  ["entity-obfuscated scheme", '<a href="jav&#x09;ascript:alert(1)">x</a>'],
+  ["svg script", "<svg><script>alert(1)</script></svg>"],
+  ["iframe", '<iframe src="https://example.com"></iframe>'],
+  ["style expression", '<div style="width: expression(alert(1))">x</div>'],
+  ["href expression", '<a href={"javascript:alert(1)"}>x</a>'],
+  ["handler expression", "<div onClick={() => alert(1)}>x</div>"],
+  ["title expression", "<span title={alert(1)}>x</span>"],
+  ["style object expression", '<div style={{ background: "url(javascript:alert(1))" }}>x</div>'],
+  ["spread attributes", '<span {...{ onMouseOver: "alert(1)" }}>x</span>'],
+]
+
+describe("MarkdownRender", () => {
+  it.each(HTML_PAYLOADS)("neutralises %s", (_name, payload) => {
+    expectNeutralised(renderMarkdown(payload))
+  })
+
+  it("keeps safe markup and links", () => {
+    const html = renderMarkdown('**bold** [site](https://example.com) <a href="/lore/x">x</a>')
+    expect(html).toContain("<strong>bold</strong>")
+    expect(html).toContain('href="https://example.com"')
+    expect(html).toContain('rel="noopener noreferrer nofollow"')
+    expect(html).toContain('href="/lore/x"')
+  })
+})
+
+describe("MdxRender", () => {
+  it.each(MDX_PAYLOADS)("neutralises %s", async (_name, payload) => {
+    expectNeutralised(await renderMdx(payload))
+  })
+
+  it("keeps safe markup and links", async () => {
+    const html = await renderMdx('**bold** [site](https://example.com) <a href="/lore/x">x</a>')
+    expect(html).toContain("<strong>bold</strong>")
+    expect(html).toContain('href="https://example.com"')
+    expect(html).toContain('target="_blank"')
+    expect(html).toContain('href="/lore/x"')
+  })
+})
+
+describe("isSafeUrl", () => {
+  it.each([
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "jav&#x09;ascript:alert(1)",
+    "&#106;avascript:alert(1)",
+    "javascript&colon;alert(1)",
+    "vbscript:msgbox(1)",
+    "data:text/html,<script>alert(1)</script>",
+  ])("rejects %s", (url) => {
+    expect(isSafeUrl(url)).toBe(false)
+  })
+
+  it.each(["https://example.com", "http://example.com", "mailto:a@example.com", "/lore/x", "#top", "page"])(
+    "allows %s",
+    (url) => {
+      expect(isSafeUrl(url)).toBe(true)
+    },
+  )
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import type { ContentEntry } from "@/lib/content"
+import { searchEntries, tokenize } from "@/lib/search"
+
+function entry(slug: string, title: string): ContentEntry {
+  return {
+    category: "locations",
+    slug,
+    folder: "",
+    file: `content/locations/${slug}.mdx`,
+    frontmatter: { title },
+    content: "",
+    issues: [],
+  }
+}
+
+const ENTRIES = [
+  entry("aeroskobing", "Ærøskøbing"),
+  entry("strasse", "Große Straße"),
+  entry("tokyo", "東京"),
+  entry("eclair", "Éclair Point"),
+]
+
+describe("tokenize", () => {
+  it("keeps letters that don't decompose and other scripts", () => {
+    expect(tokenize("Ærøskøbing, Große Straße / 東京")).toEqual(["ærøskøbing", "große", "straße", "東京"])
+  })
+
+  it("folds accents on Latin letters", () => {
+    expect(tokenize("Éclair")).toEqual(["eclair"])
+  })
+})
+
+describe("searchEntries", () => {
+  it.each([
+    ["Ærøskøbing", "aeroskobing"],
+    ["große", "strasse"],
+    ["東京", "tokyo"],
+    ["eclair", "eclair"],
+  ])("finds %s", (query, slug) => {
+    expect(searchEntries(query, { entries: ENTRIES }).map((r) => r.slug)).toContain(slug)
+  })
+})
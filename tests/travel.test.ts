@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_MAP } from "@/lib/maps"
+import { polylineLength, viewerMapScale } from "@/lib/travel"
+import type { TileManifest } from "@/lib/tilePyramid"
+
+// a 8192x4096 map tiled with a 2048x1024 base level
+const TILES: TileManifest = {
+  mapId: DEFAULT_MAP.id,
+  width: 8192,
+  height: 4096,
+  tileSize: 256,
+  format: "webp",
+  minLevel: 0,
+  maxLevel: 5,
+  baseLevel: 3,
+  baseWidth: 2048,
+  baseHeight: 1024,
+}
+
+const ROUTE = [
+  { x: 0.1, y: 0.2 },
+  { x: 0.4, y: 0.6 },
+  { x: 0.7, y: 0.3 },
+]
+
+describe("viewerMapScale", () => {
+  it("leaves untiled maps at full resolution", () => {
+    expect(viewerMapScale(DEFAULT_MAP.scale, null)).toEqual(DEFAULT_MAP.scale)
+  })
+
+  it("measures the same route whether or not the map is tiled", () => {
+    const full = polylineLength(ROUTE, { w: TILES.width, h: TILES.height }, viewerMapScale(DEFAULT_MAP.scale, null))
+    const tiled = polylineLength(ROUTE, { w: TILES.baseWidth, h: TILES.baseHeight }, viewerMapScale(DEFAULT_MAP.scale, TILES))
+    expect(tiled).toBeCloseTo(full, 6)
+  })
+})
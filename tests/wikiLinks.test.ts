@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import type { ContentEntry } from "@/lib/content"
+import { extractWikiLinks, renderWikiLinks } from "@/lib/wikiLinks"
+
+const entries: ContentEntry[] = [
+  {
+    category: "characters",
+    slug: "ozu",
+    folder: "",
+    file: "content/characters/ozu.mdx",
+    frontmatter: { title: "Ozu" },
+    content: "",
+    issues: [],
+  },
+]
+
+describe("renderWikiLinks", () => {
+  it("links prose", () => {
+    expect(renderWikiLinks("Meet [[ozu]].", entries)).toBe(
+      'Meet <a className="wiki-link" href="/lore/characters/ozu">ozu</a>.',
+    )
+  })
+
+  it("leaves fenced code blocks alone", () => {
+    const source = "```\n[[ozu]]\n```\n"
+    expect(renderWikiLinks(source, entries)).toBe(source)
+  })
+
+  it("leaves inline code spans alone", () => {
+    expect(renderWikiLinks("Write `[[ozu]]` to link [[ozu]].", entries)).toBe(
+      'Write `[[ozu]]` to link <a className="wiki-link" href="/lore/characters/ozu">ozu</a>.',
+    )
+    expect(renderWikiLinks("Or ``a `[[ozu]]` b``.", entries)).toBe("Or ``a `[[ozu]]` b``.")
+  })
+})
+
+describe("extractWikiLinks", () => {
+  it("skips links inside code", () => {
+    expect(extractWikiLinks("`[[a]]` [[b|B]]\n```\n[[c]]\n```")).toEqual([{ target: "b", label: "B" }])
+  })
+})
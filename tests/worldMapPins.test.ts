@@ -0,0 +1,45 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+// The store lives in <cwd>/data; point it at a scratch directory before the
+// module resolves its paths.
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "world-map-pins-"))
+const file = path.join(root, "data", "world-map-pins.json")
+let store: typeof import("@/lib/worldMapPins")
+
+beforeAll(async () => {
+  vi.spyOn(process, "cwd").mockReturnValue(root)
+  store = await import("@/lib/worldMapPins")
+})
+
+afterAll(() => {
+  vi.restoreAllMocks()
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  fs.rmSync(path.join(root, "data"), { recursive: true, force: true })
+})
+
+const pin = { id: "ozu", x: 0.5, y: 0.5, title: "Ozu" }
+
+describe("the pins store", () => {
+  it("starts empty when there is no file yet", () => {
+    expect(store.readWorldMapPinsState()).toEqual({ pins: [], revision: 0 })
+    expect(fs.existsSync(file)).toBe(true)
+  })
+
+  it("refuses to read or write over a file it can't parse", () => {
+    store.writeWorldMapPins([pin])
+    const saved = fs.readFileSync(file, "utf8")
+    fs.writeFileSync(file, saved.slice(0, -10), "utf8")
+    const broken = fs.readFileSync(file, "utf8")
+
+    expect(() => store.readWorldMapPinsState()).toThrow(/Failed to read world map pins store/)
+    expect(() => store.writeWorldMapRegionsForMap("world-state", [])).toThrow()
+    expect(() => store.writeWorldMapRoutes([])).toThrow()
+    expect(fs.readFileSync(file, "utf8")).toBe(broken)
+  })
+})
@@ -0,0 +1,11 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(import.meta.dirname) },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+  },
+})